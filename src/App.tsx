@@ -4,6 +4,8 @@ import { MainTracker } from './components/MainTracker';
 import { GridPreviewPage } from './components/GridPreviewPage';
 import { ImportPage } from './components/ImportPage';
 import { GridPreviewTest } from './components/GridPreviewTest';
+import { WateringHistoryPage } from './components/WateringHistoryPage';
+import { WateringStatsPage } from './components/WateringStatsPage';
 
 const App: React.FC = () => {
     return (
@@ -12,6 +14,8 @@ const App: React.FC = () => {
             <Route path="/preview" element={<GridPreviewPage />} />
             <Route path="/import" element={<ImportPage />} />
             <Route path="/test" element={<GridPreviewTest />} />
+            <Route path="/history" element={<WateringHistoryPage />} />
+            <Route path="/stats" element={<WateringStatsPage />} />
         </Routes>
     );
 };
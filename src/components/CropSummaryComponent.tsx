@@ -1,5 +1,6 @@
 import React from 'react';
 import { CropSummary } from '../types/layout';
+import { CropCatalog } from '../services/cropCatalog';
 
 interface CropSummaryComponentProps {
   cropSummary: CropSummary;
@@ -9,27 +10,6 @@ interface CropSummaryComponentProps {
   hideWateringStatus?: boolean;
 }
 
-/**
- * Maps crop names to image filenames (same as TileComponent)
- */
-const CROP_IMAGE_MAP: { [key: string]: string } = {
-  'Apple': '65px-Apple.webp',
-  'Batterfly Bean': '65px-Batterfly_Beans.webp',
-  'Blueberry': '65px-Blueberries.webp',
-  'Bok Choy': '65px-Bok_Choy.webp',
-  'Carrot': '65px-Carrot.webp',
-  'Cotton': '65px-Cotton.webp',
-  'Napa Cabbage': '65px-Napa_Cabbage.webp',
-  'Onion': '65px-Onion.webp',
-  'Potato': '65px-Potato.webp',
-  'Rice': '65px-Rice.webp',
-  'Rockhopper Pumpkin': '65px-Rockhopper_Pumpkin.webp',
-  'Spicy Pepper': '65px-Spicy_Pepper.webp',
-  'Tomato': '65px-Tomato.webp',
-  'Wheat': '65px-Wheat.webp',
-  'Corn': 'Corn.png',
-};
-
 export const CropSummaryComponent: React.FC<CropSummaryComponentProps> = ({
   cropSummary,
   onMarkAsWatered,
@@ -37,11 +17,6 @@ export const CropSummaryComponent: React.FC<CropSummaryComponentProps> = ({
   className = '',
   hideWateringStatus = false
 }) => {
-  const getCropImage = (cropType: string): string => {
-    const imageName = CROP_IMAGE_MAP[cropType];
-    return imageName ? `/images/${imageName}` : '/images/65px-Wheat.webp';
-  };
-
   const getSizeIcon = (size: 'single' | 'bush' | 'tree'): string => {
     switch (size) {
       case 'single': return '🌱';
@@ -152,7 +127,7 @@ export const CropSummaryComponent: React.FC<CropSummaryComponentProps> = ({
                 {/* Crop Image */}
                 <div className="flex-shrink-0">
                 <img
-                      src={getCropImage(cropType)}
+                      src={CropCatalog.getImage(cropType)}
                       alt={cropType}
                       className="w-8 h-8 object-contain"
                       onError={(e) => {
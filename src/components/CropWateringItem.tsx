@@ -1,13 +1,22 @@
 import React from 'react';
 import { TrackedCrop } from '../types/unified';
+import { CropDefinition } from '../types/crop';
+import { forecastHarvest } from '../services/growthService';
+import { CropCatalog } from '../services/cropCatalog';
 
 interface CropWateringItemProps {
   /** The tracked crop data */
   trackedCrop: TrackedCrop;
   /** Crop data from crops.json for display */
-  cropData?: any;
+  cropData?: CropDefinition;
+  /** Current absolute Palia day, used for the harvest countdown */
+  currentPaliaDay?: number;
+  /** Palia day the crop was planted (falls back to trackedCrop.plantedOnDay) */
+  plantedOnDay?: number;
   /** Click handler for toggling watered state */
   onToggle: () => void;
+  /** Click handler for marking the crop as planted today */
+  onPlantedToday?: () => void;
   /** Optional click handler for the entire item */
   onClick?: () => void;
   /** Whether to show additional details */
@@ -17,11 +26,14 @@ interface CropWateringItemProps {
 export const CropWateringItem: React.FC<CropWateringItemProps> = ({
   trackedCrop,
   cropData,
+  currentPaliaDay,
+  plantedOnDay = trackedCrop.plantedOnDay,
   onToggle,
+  onPlantedToday,
   onClick,
   showDetails = false
 }) => {
-  const { cropType, source, totalCount, isWatered, lastWateredAt, plantInstances } = trackedCrop;
+  const { cropType, source, totalCount, isWatered, lastWateredAt, plantInstances, daysWatered } = trackedCrop;
 
   // Get crop display data
   const displayName = cropData?.name || cropType;
@@ -33,6 +45,25 @@ export const CropWateringItem: React.FC<CropWateringItemProps> = ({
   const gardenBuff = cropData?.garden_buff;
   const group = cropData?.group;
 
+  // Harvest countdown from the crop's growth schedule; only watered days count as growth
+  const growthSchedule = CropCatalog.getGrowthSchedule(cropType);
+  const harvestForecast = growthSchedule && currentPaliaDay !== undefined && plantedOnDay !== undefined
+    ? forecastHarvest(growthSchedule, { plantedOnDay, daysWatered, wateredToday: isWatered }, currentPaliaDay)
+    : null;
+
+  const formatHarvestCountdown = (): string => {
+    if (!harvestForecast || currentPaliaDay === undefined) return '';
+    const harvestLabel = growthSchedule && growthSchedule.regrowCycles > 0
+      ? ` (harvest ${harvestForecast.harvestNumber} of ${growthSchedule.regrowCycles + 1})`
+      : '';
+    const daysUntilReady = harvestForecast.readyDay - currentPaliaDay;
+    if (daysUntilReady <= 0) {
+      return `Ready to harvest${harvestLabel}`;
+    }
+    const plural = daysUntilReady !== 1 ? 's' : '';
+    return `Ready in ${daysUntilReady} Palia day${plural} (~${daysUntilReady} real hour${plural})${harvestLabel}`;
+  };
+
   // Format last watered time
   const formatLastWatered = (date?: Date): string => {
     if (!date) return '';
@@ -98,6 +129,25 @@ export const CropWateringItem: React.FC<CropWateringItemProps> = ({
           </div>
         )}
 
+        {/* Harvest countdown */}
+        {showDetails && growthSchedule && currentPaliaDay !== undefined && (
+          <div className="text-xs text-amber-300 mt-1 flex items-center space-x-2">
+            <span>🧺 {harvestForecast ? formatHarvestCountdown() : 'All harvests done'}</span>
+            <span className="text-gray-400">· watered {daysWatered} day{daysWatered !== 1 ? 's' : ''}</span>
+            {onPlantedToday && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onPlantedToday();
+                }}
+                className="underline text-gray-400 hover:text-gray-200"
+              >
+                Planted today
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Last watered info */}
         {isWatered && lastWateredAt && (
           <div className="text-xs text-green-400 mt-1">
@@ -1,6 +1,8 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import { ParsedGardenData, GridTile } from '../types/layout';
 import { TileComponent } from './TileComponent';
+import { CropCatalog } from '../services/cropCatalog';
+import { analyzeBuffCoverage } from '../services/buffService';
 
 interface GridPreviewProps {
   gardenData: ParsedGardenData;
@@ -22,6 +24,20 @@ export const GridPreview: React.FC<GridPreviewProps> = ({
   const [loading] = useState(false);
   const [error] = useState<string | null>(null);
   const [screenSize, setScreenSize] = useState<'sm' | 'md' | 'lg'>('lg');
+  const [showBuffOverlay, setShowBuffOverlay] = useState(false);
+  const [metadataLoaded, setMetadataLoaded] = useState(false);
+
+  // Garden buffs come from crops.json, loaded the first time the overlay is shown
+  useEffect(() => {
+    if (showBuffOverlay && !metadataLoaded) {
+      CropCatalog.loadMetadata().then(() => setMetadataLoaded(true));
+    }
+  }, [showBuffOverlay, metadataLoaded]);
+
+  const buffCoverage = useMemo(
+    () => (showBuffOverlay && metadataLoaded ? analyzeBuffCoverage(gardenData) : null),
+    [gardenData, showBuffOverlay, metadataLoaded]
+  );
 
   // Detect screen size changes
   useEffect(() => {
@@ -151,6 +167,23 @@ export const GridPreview: React.FC<GridPreviewProps> = ({
                 </span>
               )}
             </p>
+            {gardenData.cropSummary.totalPlants > 0 && (
+              <div className="mt-1 flex items-center justify-center gap-2 text-xs sm:text-sm">
+                <label className="flex items-center gap-1 text-gray-600 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={showBuffOverlay}
+                    onChange={e => setShowBuffOverlay(e.target.checked)}
+                  />
+                  Show buff coverage
+                </label>
+                {buffCoverage && (
+                  <span className="text-gray-800 font-medium">
+                    {buffCoverage.score}% ({buffCoverage.buffedTiles}/{buffCoverage.plantedTiles} tiles buffed)
+                  </span>
+                )}
+              </div>
+            )}
           </div>
 
           {/* Grid Container - Responsive wrapper */}
@@ -198,6 +231,7 @@ export const GridPreview: React.FC<GridPreviewProps> = ({
                           size={tileSize}
                           showTooltip={tileSize >= (screenSize === 'sm' ? 20 : 24)}
                           onClick={onTileClick ? handleTileClick : undefined}
+                          buffs={buffCoverage?.tileBuffs[rowIndex]?.[colIndex]}
                         />
                       </div>
                     ))}
@@ -229,6 +263,12 @@ export const GridPreview: React.FC<GridPreviewProps> = ({
                 <div className="w-3 h-3 bg-gray-200 border border-gray-300 rounded-sm flex-shrink-0"></div>
                 <span className="whitespace-nowrap">Inactive</span>
               </div>
+              {buffCoverage && (
+                <div className="flex items-center space-x-1">
+                  <div className="w-3 h-3 bg-yellow-300/50 border border-yellow-500 rounded-sm flex-shrink-0"></div>
+                  <span className="whitespace-nowrap">Unbuffed</span>
+                </div>
+              )}
             </div>
           </div>
 
@@ -1,8 +1,12 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { GridPreview } from './GridPreview';
 import { CropSummaryComponent } from './CropSummaryComponent';
+import { PlannerSettingsComponent } from './PlannerSettingsComponent';
+import { YieldCalculatorComponent } from './YieldCalculatorComponent';
 import { parseGridData } from '../services/plannerService';
+import { CropCatalog } from '../services/cropCatalog';
+import { calculateLayoutYield } from '../services/yieldService';
 import { ParsedGardenData } from '../types/layout';
 import { useUnifiedGardenStore } from '../hooks/useUnifiedGardenStore';
 
@@ -13,9 +17,20 @@ export const GridPreviewPage: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [url, setUrl] = useState('');
+  const [metadataLoaded, setMetadataLoaded] = useState(false);
   
   const { importPlantsFromGarden } = useUnifiedGardenStore();
 
+  // Market data from crops.json is needed for the yield calculator
+  useEffect(() => {
+    CropCatalog.loadMetadata().then(() => setMetadataLoaded(true));
+  }, []);
+
+  const yieldData = useMemo(
+    () => (gardenData && metadataLoaded ? calculateLayoutYield(gardenData) : null),
+    [gardenData, metadataLoaded]
+  );
+
   // Check for URL parameter on mount
   useEffect(() => {
     const urlParam = searchParams.get('url');
@@ -194,7 +209,7 @@ export const GridPreviewPage: React.FC = () => {
               </div>
 
               {/* Crop Summary - Takes up 1 column */}
-              <div className="xl:col-span-1">
+              <div className="xl:col-span-1 space-y-8">
                 <div className="bg-white rounded-lg shadow-sm p-6">
                   <CropSummaryComponent
                     cropSummary={gardenData.cropSummary}
@@ -202,6 +217,26 @@ export const GridPreviewPage: React.FC = () => {
                     hideWateringStatus={true}
                   />
                 </div>
+
+                {/* Yield Calculator */}
+                {yieldData && (
+                  <div className="bg-white rounded-lg shadow-sm p-6">
+                    <YieldCalculatorComponent
+                      yieldData={yieldData}
+                      className="h-fit"
+                    />
+                  </div>
+                )}
+
+                {/* Planner Settings */}
+                {gardenData.plannerSettings && (
+                  <div className="bg-white rounded-lg shadow-sm p-6">
+                    <PlannerSettingsComponent
+                      settings={gardenData.plannerSettings}
+                      className="h-fit"
+                    />
+                  </div>
+                )}
               </div>
             </div>
 
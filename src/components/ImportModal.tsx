@@ -5,6 +5,8 @@ import { ParsedGardenData, SavedLayout } from '../types/layout';
 import { GridPreview } from './GridPreview';
 import { CropSummaryComponent } from './CropSummaryComponent';
 import { layoutService } from '../services/layoutService';
+import { LayoutSwitchMode } from '../types/unified';
+import { LayoutSwitchDialog } from './LayoutSwitchDialog';
 
 interface ImportModalProps {
   isOpen: boolean;
@@ -24,6 +26,7 @@ export const ImportModal: React.FC<ImportModalProps> = ({ isOpen, onClose }) =>
   const [layoutTags, setLayoutTags] = useState('');
   const [showPreview, setShowPreview] = useState(false);
   const [saveLoading, setSaveLoading] = useState(false);
+  const [showSwitchDialog, setShowSwitchDialog] = useState(false);
   
   // Saved layouts state
   const [savedLayouts, setSavedLayouts] = useState<SavedLayout[]>([]);
@@ -31,7 +34,7 @@ export const ImportModal: React.FC<ImportModalProps> = ({ isOpen, onClose }) =>
   const [searchQuery, setSearchQuery] = useState('');
   const [sortBy, setSortBy] = useState<'name' | 'createdAt' | 'lastModified'>('lastModified');
   
-  const { saveAndLoadLayout, loadLayoutById } = useUnifiedGardenStore();
+  const { trackedCrops, activeLayoutId, saveAndLoadLayout, loadLayoutById, detachLayout } = useUnifiedGardenStore();
 
   const handleImport = useCallback(async () => {
     setLoading(true);
@@ -62,8 +65,8 @@ export const ImportModal: React.FC<ImportModalProps> = ({ isOpen, onClose }) =>
     }
   }, [url]);
 
-  const loadSavedLayouts = useCallback(() => {
-    const result = layoutService.searchLayouts({
+  const loadSavedLayouts = useCallback(async () => {
+    const result = await layoutService.searchLayouts({
       query: searchQuery,
       sortBy,
       sortDirection: 'desc'
@@ -90,6 +93,15 @@ export const ImportModal: React.FC<ImportModalProps> = ({ isOpen, onClose }) =>
     }
   }, [searchQuery, sortBy, loadSavedLayouts, importMode]);
 
+  // Reload layouts changed in another tab
+  useEffect(() => {
+    return layoutService.subscribe(() => {
+      if (isOpen && importMode === 'saved') {
+        loadSavedLayouts();
+      }
+    });
+  }, [isOpen, importMode, loadSavedLayouts]);
+
   const handleClose = useCallback(() => {
     setImportMode('url');
     setUrl('');
@@ -122,18 +134,22 @@ export const ImportModal: React.FC<ImportModalProps> = ({ isOpen, onClose }) =>
       return;
     }
     
-    const result = layoutService.deleteLayout(layoutId);
+    const result = await layoutService.deleteLayout(layoutId);
     if (result.success) {
+      // The tracker keeps its crops but no longer follows the deleted layout
+      if (layoutId === activeLayoutId) {
+        detachLayout();
+      }
       loadSavedLayouts();
     } else {
       setError(result.error?.message || 'Failed to delete layout');
     }
-  }, [loadSavedLayouts]);
+  }, [loadSavedLayouts, activeLayoutId, detachLayout]);
 
   const handleToggleFavorite = useCallback(async (layoutId: string, isFavorite: boolean, event: React.MouseEvent) => {
     event.stopPropagation();
     
-    const result = layoutService.updateLayoutMetadata(layoutId, { isFavorite: !isFavorite });
+    const result = await layoutService.updateLayoutMetadata(layoutId, { isFavorite: !isFavorite });
     if (result.success) {
       loadSavedLayouts();
     } else {
@@ -141,8 +157,15 @@ export const ImportModal: React.FC<ImportModalProps> = ({ isOpen, onClose }) =>
     }
   }, [loadSavedLayouts]);
 
-  const handleSaveLayout = useCallback(async () => {
+  const handleSaveLayout = useCallback(async (mode?: LayoutSwitchMode) => {
       if (!gardenData || !layoutName.trim()) return;
+
+      // Switching away from the tracked crops asks whether to replace or merge them
+      if (!mode && trackedCrops.length > 0 && selectedLayout?.metadata.id !== activeLayoutId) {
+          setShowSwitchDialog(true);
+          return;
+      }
+      setShowSwitchDialog(false);
       
       try {
           setSaveLoading(true);
@@ -150,7 +173,7 @@ export const ImportModal: React.FC<ImportModalProps> = ({ isOpen, onClose }) =>
           
           if (selectedLayout) {
               // Load existing layout
-              const result = await loadLayoutById(selectedLayout.metadata.id);
+              const result = await loadLayoutById(selectedLayout.metadata.id, mode);
               if (!result.success) {
                   setError(result.error || 'Failed to load layout');
                   return;
@@ -160,7 +183,8 @@ export const ImportModal: React.FC<ImportModalProps> = ({ isOpen, onClose }) =>
               const tags = layoutTags.trim() ? layoutTags.split(',').map(tag => tag.trim()).filter(Boolean) : [];
               const result = await saveAndLoadLayout(url, layoutName, {
                   notes: layoutNotes.trim() || undefined,
-                  tags: tags.length > 0 ? tags : undefined
+                  tags: tags.length > 0 ? tags : undefined,
+                  mode
               });
               
               if (!result.success) {
@@ -175,7 +199,7 @@ export const ImportModal: React.FC<ImportModalProps> = ({ isOpen, onClose }) =>
       } finally {
           setSaveLoading(false);
       }
-  }, [gardenData, layoutName, layoutNotes, layoutTags, selectedLayout, url, saveAndLoadLayout, loadLayoutById, handleClose]);
+  }, [gardenData, layoutName, layoutNotes, layoutTags, selectedLayout, url, trackedCrops, activeLayoutId, saveAndLoadLayout, loadLayoutById, handleClose]);
 
   const handleBackToImport = useCallback(() => {
     setShowPreview(false);
@@ -570,7 +594,7 @@ export const ImportModal: React.FC<ImportModalProps> = ({ isOpen, onClose }) =>
                       )}
                       
                       <button
-                        onClick={handleSaveLayout}
+                        onClick={() => handleSaveLayout()}
                         disabled={(!selectedLayout && !layoutName.trim()) || saveLoading}
                         className={`px-4 py-2 text-white rounded-md focus:outline-none focus:ring-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors ${
                           selectedLayout
@@ -593,6 +617,14 @@ export const ImportModal: React.FC<ImportModalProps> = ({ isOpen, onClose }) =>
           </div>
         )}
       </div>
+
+      <LayoutSwitchDialog
+        isOpen={showSwitchDialog}
+        layoutName={selectedLayout ? selectedLayout.metadata.name : layoutName}
+        trackedCropCount={trackedCrops.length}
+        onChoose={handleSaveLayout}
+        onCancel={() => setShowSwitchDialog(false)}
+      />
     </div>
   );
 };
\ No newline at end of file
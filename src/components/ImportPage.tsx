@@ -5,7 +5,10 @@ import { parseGridData } from '../services/plannerService';
 import { ParsedGardenData, SavedLayout } from '../types/layout';
 import { GridPreview } from './GridPreview';
 import { CropSummaryComponent } from './CropSummaryComponent';
+import { ParseDiagnosticsComponent } from './ParseDiagnosticsComponent';
 import { layoutService } from '../services/layoutService';
+import { LayoutSwitchMode } from '../types/unified';
+import { LayoutSwitchDialog } from './LayoutSwitchDialog';
 
 type ImportMode = 'url' | 'saved';
 
@@ -21,6 +24,7 @@ export const ImportPage: React.FC = () => {
   const [layoutTags, setLayoutTags] = useState('');
   const [showPreview, setShowPreview] = useState(false);
   const [saveLoading, setSaveLoading] = useState(false);
+  const [showSwitchDialog, setShowSwitchDialog] = useState(false);
   
   // Saved layouts state
   const [savedLayouts, setSavedLayouts] = useState<SavedLayout[]>([]);
@@ -28,7 +32,7 @@ export const ImportPage: React.FC = () => {
   const [searchQuery, setSearchQuery] = useState('');
   const [sortBy, setSortBy] = useState<'name' | 'createdAt' | 'lastModified'>('lastModified');
   
-  const { saveAndLoadLayout, loadLayoutById } = useUnifiedGardenStore();
+  const { trackedCrops, activeLayoutId, saveAndLoadLayout, loadLayoutById, detachLayout } = useUnifiedGardenStore();
 
   const handleImport = useCallback(async () => {
     setLoading(true);
@@ -59,8 +63,8 @@ export const ImportPage: React.FC = () => {
     }
   }, [url]);
 
-  const loadSavedLayouts = useCallback(() => {
-    const result = layoutService.searchLayouts({
+  const loadSavedLayouts = useCallback(async () => {
+    const result = await layoutService.searchLayouts({
       query: searchQuery,
       sortBy,
       sortDirection: 'desc'
@@ -87,6 +91,15 @@ export const ImportPage: React.FC = () => {
     }
   }, [searchQuery, sortBy, loadSavedLayouts, importMode]);
 
+  // Reload layouts changed in another tab
+  useEffect(() => {
+    return layoutService.subscribe(() => {
+      if (importMode === 'saved') {
+        loadSavedLayouts();
+      }
+    });
+  }, [importMode, loadSavedLayouts]);
+
   const handleLoadSavedLayout = useCallback((layout: SavedLayout) => {
     setSelectedLayout(layout);
     setGardenData(layout.gardenData);
@@ -101,18 +114,22 @@ export const ImportPage: React.FC = () => {
       return;
     }
     
-    const result = layoutService.deleteLayout(layoutId);
+    const result = await layoutService.deleteLayout(layoutId);
     if (result.success) {
+      // The tracker keeps its crops but no longer follows the deleted layout
+      if (layoutId === activeLayoutId) {
+        detachLayout();
+      }
       loadSavedLayouts();
     } else {
       setError(result.error?.message || 'Failed to delete layout');
     }
-  }, [loadSavedLayouts]);
+  }, [loadSavedLayouts, activeLayoutId, detachLayout]);
 
   const handleToggleFavorite = useCallback(async (layoutId: string, isFavorite: boolean, event: React.MouseEvent) => {
     event.stopPropagation();
     
-    const result = layoutService.updateLayoutMetadata(layoutId, { isFavorite: !isFavorite });
+    const result = await layoutService.updateLayoutMetadata(layoutId, { isFavorite: !isFavorite });
     if (result.success) {
       loadSavedLayouts();
     } else {
@@ -120,8 +137,15 @@ export const ImportPage: React.FC = () => {
     }
   }, [loadSavedLayouts]);
 
-  const handleSaveLayout = useCallback(async () => {
+  const handleSaveLayout = useCallback(async (mode?: LayoutSwitchMode) => {
       if (!gardenData || !layoutName.trim()) return;
+
+      // Switching away from the tracked crops asks whether to replace or merge them
+      if (!mode && trackedCrops.length > 0 && selectedLayout?.metadata.id !== activeLayoutId) {
+          setShowSwitchDialog(true);
+          return;
+      }
+      setShowSwitchDialog(false);
       
       try {
           setSaveLoading(true);
@@ -129,7 +153,7 @@ export const ImportPage: React.FC = () => {
           
           if (selectedLayout) {
               // Load existing layout
-              const result = await loadLayoutById(selectedLayout.metadata.id);
+              const result = await loadLayoutById(selectedLayout.metadata.id, mode);
               if (!result.success) {
                   setError(result.error || 'Failed to load layout');
                   return;
@@ -139,7 +163,8 @@ export const ImportPage: React.FC = () => {
               const tags = layoutTags.trim() ? layoutTags.split(',').map(tag => tag.trim()).filter(Boolean) : [];
               const result = await saveAndLoadLayout(url, layoutName, {
                   notes: layoutNotes.trim() || undefined,
-                  tags: tags.length > 0 ? tags : undefined
+                  tags: tags.length > 0 ? tags : undefined,
+                  mode
               });
               
               if (!result.success) {
@@ -154,7 +179,7 @@ export const ImportPage: React.FC = () => {
       } finally {
           setSaveLoading(false);
       }
-  }, [gardenData, layoutName, layoutNotes, layoutTags, selectedLayout, url, saveAndLoadLayout, loadLayoutById, navigate]);
+  }, [gardenData, layoutName, layoutNotes, layoutTags, selectedLayout, url, trackedCrops, activeLayoutId, saveAndLoadLayout, loadLayoutById, navigate]);
 
   const handleBackToImport = useCallback(() => {
     setShowPreview(false);
@@ -440,8 +465,11 @@ export const ImportPage: React.FC = () => {
                   </div>
                 </div>
 
-                {/* Crop Summary - Takes up 1 column */}
-                <div className="xl:col-span-1">
+                {/* Crop Summary and parse problems - Takes up 1 column */}
+                <div className="xl:col-span-1 space-y-8">
+                  {gardenData.diagnostics && (
+                    <ParseDiagnosticsComponent diagnostics={gardenData.diagnostics} />
+                  )}
                   <div className="bg-white rounded-lg shadow-sm p-6">
                     <CropSummaryComponent
                       cropSummary={gardenData.cropSummary}
@@ -580,7 +608,7 @@ export const ImportPage: React.FC = () => {
                 )}
                 
                 <button
-                  onClick={handleSaveLayout}
+                  onClick={() => handleSaveLayout()}
                   disabled={(!selectedLayout && !layoutName.trim()) || saveLoading}
                   className={`px-4 py-2 text-white rounded-md focus:outline-none focus:ring-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors ${
                     selectedLayout
@@ -600,6 +628,14 @@ export const ImportPage: React.FC = () => {
           </div>
         )}
       </div>
+
+      <LayoutSwitchDialog
+        isOpen={showSwitchDialog}
+        layoutName={selectedLayout ? selectedLayout.metadata.name : layoutName}
+        trackedCropCount={trackedCrops.length}
+        onChoose={handleSaveLayout}
+        onCancel={() => setShowSwitchDialog(false)}
+      />
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,62 @@
+import React from 'react';
+import { LayoutSwitchMode } from '../types/unified';
+
+interface LayoutSwitchDialogProps {
+  isOpen: boolean;
+  layoutName: string;
+  trackedCropCount: number;
+  onChoose: (mode: LayoutSwitchMode) => void;
+  onCancel: () => void;
+}
+
+export const LayoutSwitchDialog: React.FC<LayoutSwitchDialogProps> = ({
+  isOpen,
+  layoutName,
+  trackedCropCount,
+  onChoose,
+  onCancel
+}) => {
+  if (!isOpen) {
+    return null;
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg w-full max-w-md mx-4 p-6">
+        <h2 className="text-xl font-bold mb-2 text-gray-800">
+          Switch to "{layoutName}"?
+        </h2>
+        <p className="text-sm text-gray-600 mb-4">
+          You are tracking {trackedCropCount} crop{trackedCropCount !== 1 ? 's' : ''}. Crops in this layout keep
+          today's watering either way.
+        </p>
+
+        <div className="space-y-3 mb-6">
+          <button
+            onClick={() => onChoose('replace')}
+            className="w-full p-3 text-left border border-gray-200 rounded-lg hover:border-blue-300 hover:bg-blue-50 transition-colors"
+          >
+            <div className="font-medium text-gray-900">🔄 Replace</div>
+            <div className="text-sm text-gray-600">Only track the crops in this layout</div>
+          </button>
+          <button
+            onClick={() => onChoose('merge')}
+            className="w-full p-3 text-left border border-gray-200 rounded-lg hover:border-green-300 hover:bg-green-50 transition-colors"
+          >
+            <div className="font-medium text-gray-900">➕ Merge</div>
+            <div className="text-sm text-gray-600">Add this layout's crops and keep tracking the others</div>
+          </button>
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-gray-600 bg-gray-100 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-500 transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -3,16 +3,63 @@ import { useNavigate } from 'react-router-dom';
 import { CropWateringItem } from './CropWateringItem';
 import { MigrationBanner } from './MigrationBanner';
 import { GridPreviewTest } from './GridPreviewTest';
+import { GridPreview } from './GridPreview';
+import { UndoToast } from './UndoToast';
 import { useUnifiedGardenStore, initializeUnifiedStore } from '../hooks/useUnifiedGardenStore';
+import { CropCatalog } from '../services/cropCatalog';
+import { layoutService } from '../services/layoutService';
+import { applyPlantWateringToGarden, parseGridData } from '../services/plannerService';
+import { CropDefinition } from '../types/crop';
+import { GridTile, LayoutError, ParsedGardenData } from '../types/layout';
+import { Plant } from '../types';
+import { HistoryEntry, UnifiedGardenStoreActions } from '../types/unified';
+import { getPaliaDay, getPaliaTime } from '../services/paliaTime';
 
-interface TimeData {
-    clockTime: string;
-    partOfDay: string;
-    dayText: string;
-    dialRotation: number;
-    hours: number;
+/**
+ * How undo and redo toasts name each store action
+ */
+const ACTION_LABELS: Partial<Record<keyof UnifiedGardenStoreActions, string>> = {
+    addCropManually: 'adding a crop',
+    removeCrop: 'removing a crop',
+    importPlantsFromGarden: 'importing plants',
+    toggleCropWatered: 'watering a crop',
+    togglePlantWatered: 'watering a plant',
+    setCropPlantedDay: 'setting a planting day',
+    waterAllCrops: 'Water All',
+    waterNoneCrops: 'Water None',
+    resetDailyWatering: 'the watering reset',
+    setResetHour: 'changing the reset hour',
+    importFromLegacyData: 'the legacy import',
+    clearAllCrops: 'clearing all crops',
+    updatePlantInstances: 'updating plants',
+    saveAndLoadLayout: 'loading a layout',
+    loadLayoutById: 'loading a layout',
+    detachLayout: 'detaching the layout',
+    createGarden: 'creating a garden',
+    renameGarden: 'renaming the garden',
+    deleteGarden: 'deleting a garden',
+    switchGarden: 'switching gardens'
+};
+
+/**
+ * Toast message for undone or redone history entries
+ */
+const describeHistory = (verb: string, entries: HistoryEntry[]): string =>
+    entries.length === 1
+        ? `${verb} ${ACTION_LABELS[entries[0].action] ?? entries[0].action}`
+        : `${verb} ${entries.length} changes`;
+
+interface UndoToastState {
+    message: string;
+    /** What the toast button does */
+    action: 'undo' | 'redo';
+    /** Number of history entries the button undoes or redoes */
+    steps: number;
 }
 
+/** Number of recent cycles shown in the cycle status panel */
+const RECENT_CYCLE_COUNT = 5;
+
 interface CycleWateringState {
     cycleHistory: Array<{
         cycleId: string;
@@ -23,7 +70,7 @@ interface CycleWateringState {
 }
 
 const CropListItem: React.FC<{
-    crop: any;
+    crop: CropDefinition;
     checked?: boolean;
     onCheck?: (checked: boolean) => void;
     onClick?: () => void;
@@ -89,25 +136,47 @@ export const MainTracker: React.FC = () => {
     });
 
     const [isCropModalOpen, setIsCropModalOpen] = useState(false);
-    const [allCrops, setAllCrops] = useState<any[]>([]);
+    const [allCrops, setAllCrops] = useState<CropDefinition[]>([]);
     const [tempSelectedCrops, setTempSelectedCrops] = useState<string[] | null>(null);
     const [filterBuff, setFilterBuff] = useState('');
     const [filterRarity, setFilterRarity] = useState('');
     const [filterGroup, setFilterGroup] = useState('');
     const [filterPrice, setFilterPrice] = useState([0, 999]);
     const [showMigrationBanner, setShowMigrationBanner] = useState(true);
+    const [showSettings, setShowSettings] = useState(false);
+    const [activeGarden, setActiveGarden] = useState<ParsedGardenData | null>(null);
+    const [activeLayoutName, setActiveLayoutName] = useState('');
+    const [showGardenOverview, setShowGardenOverview] = useState(false);
+    const [showSchemaNotice, setShowSchemaNotice] = useState(true);
+    const [layoutsRevision, setLayoutsRevision] = useState(0);
+    const [undoToast, setUndoToast] = useState<UndoToastState | null>(null);
 
     // Use unified store
     const {
         trackedCrops,
         dailyWateringState,
+        activeLayoutId,
+        gardens,
+        activeGardenId,
+        schemaMigration,
         isInitialized,
         addCropManually,
         removeCrop,
         toggleCropWatered,
+        togglePlantWatered,
+        detachLayout,
+        createGarden,
+        renameGarden,
+        deleteGarden,
+        switchGarden,
+        getGardenOverview,
+        setCropPlantedDay,
         waterAllCrops,
         waterNoneCrops,
-        resetDailyWatering
+        syncDailyReset,
+        setResetHour,
+        undo,
+        redo
     } = useUnifiedGardenStore();
 
     // Initialize unified store on mount
@@ -115,6 +184,11 @@ export const MainTracker: React.FC = () => {
         initializeUnifiedStore();
     }, []);
 
+    // Show the notice again when another tab's write brings a new problem
+    useEffect(() => {
+        setShowSchemaNotice(true);
+    }, [schemaMigration]);
+
     useEffect(() => {
         const interval = setInterval(() => {
             setCurrentTime(Date.now());
@@ -123,86 +197,117 @@ export const MainTracker: React.FC = () => {
         return () => clearInterval(interval);
     }, []);
 
-    const timeData = useMemo((): TimeData & { weekIdentifier: string; dayOfWeek: number; cycleId: string } => {
-        // Convert real-world time to Palia time base (PST)
-        const PST_UTC_SUNDAY_OFFSET = 60 * 60 * (8 + 3 * 24); // 8 hours PST + 3 days offset
-        const realTimePST = currentTime / 1000 - PST_UTC_SUNDAY_OFFSET;
-
-        // One Palia day = 1 real-world hour
-        // Palia time runs 24x faster than real time
-        const palianTimeOfDay = (realTimePST * 24) % (24 * 60 * 60); // seconds in a day
-
-        // Convert to hours and minutes for display
-        const palianMinutes = Math.floor(palianTimeOfDay / 60);
-        const hours = Math.floor(palianMinutes / 60);
-        const minutes = palianMinutes % 60;
-        const clockTime = `${hours.toString().padStart(2, "0")}:${minutes
-            .toString()
-            .padStart(2, "0")}`;
-
-        // Week starts Sunday 9 PM PST
-        const timeSincePSTWeek = (realTimePST - 21 * 3600) % (7 * 24 * 3600);
-        const palianCycleThisWeek = timeSincePSTWeek / 3600;
-        const palianDayThisWeek = Math.floor(palianCycleThisWeek / 24);
-        const palianCycleThisDay = Math.floor(palianCycleThisWeek) % 24;
-
-        const dayText = `Day ${palianDayThisWeek + 1} Cycle ${(palianCycleThisDay + 1)
-            .toString()
-            .padStart(2, "0")}`;
-
-        // Calculate week identifier for weekly reset
-        const weekNumber = Math.floor((realTimePST - 21 * 3600) / (7 * 24 * 3600));
-        const weekIdentifier = `week-${weekNumber}`;
-
-        // Calculate cycle identifier (unique for each cycle)
-        const totalCycles = Math.floor(realTimePST / 3600);
-        const cycleId = `cycle-${totalCycles}`;
-
-        // Determine time period
-        const getPartOfDay = (hours: number): string => {
-            if (hours >= 21 || hours < 3) return "Night"; // 21:00 - 03:00
-            if (hours >= 18) return "Evening"; // 18:00 - 21:00
-            if (hours >= 6) return "Day"; // 06:00 - 18:00
-            return "Morning"; // 03:00 - 06:00
-        };
+    const timeData = useMemo(() => getPaliaTime(currentTime), [currentTime]);
+
+    const undoChanges = useCallback((steps: number) => {
+        const undone: HistoryEntry[] = [];
+        for (let step = 0; step < steps; step++) {
+            const entry = undo();
+            if (!entry) break;
+            undone.push(entry);
+        }
+        if (undone.length > 0) {
+            setUndoToast({ message: describeHistory('Undid', undone), action: 'redo', steps: undone.length });
+        }
+    }, [undo]);
+
+    const redoChanges = useCallback((steps: number) => {
+        const redone: HistoryEntry[] = [];
+        for (let step = 0; step < steps; step++) {
+            const entry = redo();
+            if (!entry) break;
+            redone.push(entry);
+        }
+        if (redone.length > 0) {
+            setUndoToast({ message: describeHistory('Redid', redone), action: 'undo', steps: redone.length });
+        }
+    }, [redo]);
 
-        const partOfDay = getPartOfDay(hours);
+    /**
+     * Run a change and offer to undo it, counting the history entries it recorded
+     */
+    const runUndoable = useCallback((message: string, change: () => void) => {
+        const previousTop = useUnifiedGardenStore.getState().undoStack.slice(-1)[0];
+        change();
+        const { undoStack } = useUnifiedGardenStore.getState();
+        const steps = undoStack.length - 1 - (previousTop ? undoStack.indexOf(previousTop) : -1);
+        if (steps > 0) {
+            setUndoToast({ message, action: 'undo', steps });
+        }
+    }, []);
 
-        // Pointer rotation: 6 AM should point to left (180°), 12 PM to top (270°), 18 PM to right (0°)
-        // Since Day period (6-18) spans from left (180°) to right (0°/360°) going through top
-        // We need to map 6 AM = 180°, so subtract 6 hours worth of rotation
-        const dialRotation = (360 * palianTimeOfDay) / (24 * 60 * 60) + 90;
+    const dismissUndoToast = useCallback(() => setUndoToast(null), []);
 
-        return {
-            clockTime,
-            partOfDay,
-            dayText,
-            dialRotation,
-            hours,
-            weekIdentifier,
-            dayOfWeek: palianDayThisWeek,
-            cycleId
+    // Ctrl+Z undoes, Ctrl+Shift+Z (or Ctrl+Y) redoes, except while typing
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (!(event.ctrlKey || event.metaKey)) return;
+            const target = event.target as HTMLElement | null;
+            if (target && (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable)) return;
+
+            const key = event.key.toLowerCase();
+            if (key === 'z' && !event.shiftKey) {
+                event.preventDefault();
+                undoChanges(1);
+            } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+                event.preventDefault();
+                redoChanges(1);
+            }
         };
-    }, [currentTime]);
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [undoChanges, redoChanges]);
 
     useEffect(() => {
-        fetch('crops.json')
-            .then(res => res.json())
-            .then(data => setAllCrops(data.sort((a: any, b: any) => a.base_value - b.base_value)));
+        CropCatalog.loadMetadata()
+            .then(data => setAllCrops([...data].sort((a, b) => a.base_value - b.base_value)));
     }, []);
 
     // Handle daily reset logic with unified store
+    // The store keys resets on the absolute Palia day, so resets missed while the tab was closed or asleep are caught up
     useEffect(() => {
         if (!isInitialized) return;
-        
-        const currentDay = timeData.dayText;
-        const isNewDay = currentDay !== dailyWateringState.lastResetDay;
-        const is6amOrLater = timeData.hours >= 6;
-        
-        if (isNewDay && is6amOrLater) {
-            resetDailyWatering(currentDay);
+        syncDailyReset(currentTime);
+    }, [currentTime, isInitialized, syncDailyReset]);
+
+    // Reload the active layout when another tab changes layouts
+    useEffect(() => {
+        return layoutService.subscribe(() => setLayoutsRevision(revision => revision + 1));
+    }, []);
+
+    // Load the grid of the active layout
+    useEffect(() => {
+        if (!activeLayoutId) {
+            setActiveGarden(null);
+            return;
         }
-    }, [timeData.dayText, timeData.hours, dailyWateringState.lastResetDay, isInitialized, resetDailyWatering]);
+
+        let cancelled = false;
+        layoutService.loadLayout(activeLayoutId).then(loadResult => {
+            if (cancelled) return;
+            if (!loadResult.success) {
+                setActiveGarden(null);
+                // The layout was deleted outside the tracker
+                if (loadResult.error?.type === LayoutError.LAYOUT_NOT_FOUND) {
+                    detachLayout();
+                }
+                return;
+            }
+
+            setActiveLayoutName(loadResult.data!.metadata.name);
+            return parseGridData(loadResult.data!.saveCode)
+                .then(gardenData => !cancelled && setActiveGarden(gardenData));
+        }).catch(() => !cancelled && setActiveGarden(null));
+        return () => { cancelled = true; };
+    }, [activeLayoutId, layoutsRevision, detachLayout]);
+
+    // Color the active layout's tiles by the watering state of their plants
+    const wateringGarden = useMemo(() => {
+        if (!activeGarden) return null;
+        const plants = trackedCrops.reduce<Plant[]>((all, crop) => all.concat(crop.plantInstances), []);
+        return applyPlantWateringToGarden(activeGarden, plants);
+    }, [activeGarden, trackedCrops]);
 
     useEffect(() => {
         localStorage.setItem('paliaCycleWateringState', JSON.stringify(cycleWateringState));
@@ -225,7 +330,7 @@ export const MainTracker: React.FC = () => {
 
     const getCycleProgress = (): number => {
         const wateredCycles = cycleWateringState.cycleHistory.filter(cycle => cycle.watered).length;
-        return Math.round((wateredCycles / 5) * 100);
+        return Math.round((wateredCycles / RECENT_CYCLE_COUNT) * 100);
     };
 
     const getCurrentCycleStatus = (): boolean => {
@@ -248,11 +353,13 @@ export const MainTracker: React.FC = () => {
         
         // Remove crops that are no longer selected
         const toRemove = currentCropTypes.filter(cropType => !newTracked.includes(cropType));
-        toRemove.forEach(cropType => removeCrop(cropType));
+        if (toRemove.length > 0) {
+            runUndoable(`Stopped tracking ${toRemove.join(', ')}`, () => toRemove.forEach(cropType => removeCrop(cropType)));
+        }
     };
 
     // Helper to get unique values for dropdowns
-    const unique = (arr: any[], key: string): string[] => Array.from(new Set(arr.map((item: any) => String(item[key])))).filter(Boolean) as string[];
+    const unique = (arr: CropDefinition[], key: keyof CropDefinition): string[] => Array.from(new Set(arr.map(item => String(item[key])))).filter(Boolean);
 
     // Filtered crops for modal
     const filteredCrops = allCrops.filter(crop => {
@@ -277,7 +384,7 @@ export const MainTracker: React.FC = () => {
             } else {
                 newHistory = [
                     { cycleId: timeData.cycleId, watered: allWatered, timestamp: Date.now(), dayText: timeData.dayText },
-                    ...prev.cycleHistory.slice(0, 4)
+                    ...prev.cycleHistory.slice(0, RECENT_CYCLE_COUNT - 1)
                 ];
             }
             return { ...prev, cycleHistory: newHistory };
@@ -291,6 +398,29 @@ export const MainTracker: React.FC = () => {
         }
     }, [trackedCrops, isInitialized, updateCycleStatus]);
 
+    const activeGardenName = gardens.find(garden => garden.id === activeGardenId)?.name ?? '';
+
+    const handleCreateGarden = () => {
+        const name = window.prompt('Name of the new garden (e.g. a friend\'s plot):');
+        if (name) {
+            createGarden(name);
+        }
+    };
+
+    const handleRenameGarden = () => {
+        if (!activeGardenId) return;
+        const name = window.prompt('New name for this garden:', activeGardenName);
+        if (name) {
+            renameGarden(activeGardenId, name);
+        }
+    };
+
+    const handleGardenTileClick = (tile: GridTile) => {
+        if (!tile.cropId) return;
+        togglePlantWatered(tile.cropId);
+        updateCycleStatus();
+    };
+
     // Handle import from planner
     const handleImportFromPlanner = useCallback(() => {
         navigate('/import');
@@ -315,6 +445,48 @@ export const MainTracker: React.FC = () => {
             {showMigrationBanner && (
                 <MigrationBanner onMigrationComplete={() => setShowMigrationBanner(false)} />
             )}
+
+            {undoToast && (
+                <UndoToast
+                    message={undoToast.message}
+                    actionLabel={undoToast.action === 'undo' ? 'Undo' : 'Redo'}
+                    onAction={() => undoToast.action === 'undo' ? undoChanges(undoToast.steps) : redoChanges(undoToast.steps)}
+                    onDismiss={dismissUndoToast}
+                />
+            )}
+
+            {/* Saved data that could not be upgraded */}
+            {showSchemaNotice && schemaMigration && !schemaMigration.success && (
+                <div className="fixed top-4 left-4 right-4 z-50 max-w-2xl mx-auto bg-red-600 text-white rounded-lg shadow-lg p-4">
+                    <div className="flex items-start justify-between gap-3">
+                        <div className="text-sm">
+                            <div className="font-semibold">
+                                {schemaMigration.newerVersion
+                                    ? '⚠️ Your saved garden data is from a newer version of this app'
+                                    : '⚠️ Your saved garden data could not be upgraded'}
+                            </div>
+                            <div className="text-red-100 mt-1">{schemaMigration.errors.join('; ')}</div>
+                            {schemaMigration.newerVersion && (
+                                <div className="text-red-100 mt-1">
+                                    It was left untouched and changes made here will not be saved. Reload the page to use the newer version.
+                                </div>
+                            )}
+                            {schemaMigration.backupKey && (
+                                <div className="text-red-100 mt-1">
+                                    A copy of the old data was kept in browser storage under "{schemaMigration.backupKey}".
+                                </div>
+                            )}
+                        </div>
+                        <button
+                            onClick={() => setShowSchemaNotice(false)}
+                            className="text-red-200 hover:text-white transition-colors"
+                            aria-label="Dismiss"
+                        >
+                            ✕
+                        </button>
+                    </div>
+                </div>
+            )}
             
             <div className="w-full mx-auto grid grid-cols-1 md:grid-cols-3 gap-3">
                 {/* Clock SVG - hidden on small screens */}
@@ -528,9 +700,63 @@ export const MainTracker: React.FC = () => {
 
                 {/* Crop Watering Tracker */}
                 <div className="mt-4 bg-black/20 backdrop-blur-sm rounded-2xl p-4 shadow-xl border border-white/10">
+                    {/* Garden Switcher */}
+                    <div className="flex items-center gap-2 mb-3 text-sm">
+                        <span className="text-gray-300">🏡</span>
+                        <select
+                            className="flex-1 p-1 rounded bg-gray-800 text-white border border-gray-600"
+                            value={activeGardenId ?? ''}
+                            onChange={e => switchGarden(e.target.value)}
+                        >
+                            {gardens.map(garden => (
+                                <option key={garden.id} value={garden.id}>{garden.name}</option>
+                            ))}
+                        </select>
+                        <button className="underline text-green-300" onClick={handleCreateGarden}>New</button>
+                        <button className="underline text-blue-300" onClick={() => setShowGardenOverview(!showGardenOverview)}>
+                            All Gardens
+                        </button>
+                    </div>
+
+                    {/* All Gardens Overview */}
+                    {showGardenOverview && (
+                        <div className="mb-3 p-3 rounded-lg bg-gray-700/30 border border-white/10 text-sm space-y-1">
+                            {getGardenOverview(currentTime).map(garden => (
+                                <div key={garden.id} className="flex items-center justify-between">
+                                    <button
+                                        className={`text-left truncate ${garden.isActive ? 'font-semibold text-white' : 'text-gray-300 hover:text-white'}`}
+                                        onClick={() => switchGarden(garden.id)}
+                                    >
+                                        {garden.name}
+                                    </button>
+                                    <div className="flex items-center gap-2">
+                                        <span className={garden.needsWater ? 'text-red-300' : 'text-green-300'}>
+                                            {garden.trackedCropCount === 0
+                                                ? 'No crops'
+                                                : garden.needsWater
+                                                    ? `💧 ${garden.wateredCropCount}/${garden.trackedCropCount} watered`
+                                                    : '✓ All watered'}
+                                        </span>
+                                        {!garden.isActive && (
+                                            <button
+                                                className="text-gray-400 hover:text-red-400"
+                                                title="Delete garden"
+                                                onClick={() => {
+                                                    if (window.confirm(`Delete the garden "${garden.name}" and its tracked crops?`)) {
+                                                        runUndoable(`Deleted ${garden.name}`, () => deleteGarden(garden.id));
+                                                    }
+                                                }}
+                                            >🗑️</button>
+                                        )}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
                     <div className="flex items-center justify-between mb-2">
                         <h3 className="text-lg font-semibold text-white">🌱 Daily Crop Watering</h3>
-                        <div className="text-sm text-gray-300">Resets at 6:00 AM</div>
+                        <div className="text-sm text-gray-300">Resets at {dailyWateringState.resetTime.toString().padStart(2, '0')}:00</div>
                     </div>
                     {trackedCrops.length === 0 ? (
                         <div className="text-gray-400 text-center py-4">No crops tracked. </div>
@@ -547,23 +773,26 @@ export const MainTracker: React.FC = () => {
                                 <button
                                     className="px-3 py-1 rounded bg-gray-400/80 text-white text-xs hover:bg-gray-500"
                                     onClick={() => {
-                                        waterNoneCrops();
+                                        runUndoable('Marked every crop as not watered', waterNoneCrops);
                                         updateCycleStatus();
                                     }}
                                 >Water None</button>
                             </div>
                             <div className="space-y-2">
                                 {trackedCrops.map(trackedCrop => {
-                                    const cropData = allCrops.find(c => c.name === trackedCrop.cropType);
+                                    const cropData = allCrops.find(c => c.name === CropCatalog.getCanonicalName(trackedCrop.cropType));
                                     return (
                                         <CropWateringItem
                                             key={trackedCrop.cropType}
                                             trackedCrop={trackedCrop}
                                             cropData={cropData}
+                                            currentPaliaDay={timeData.paliaDay}
+                                            plantedOnDay={trackedCrop.plantedOnDay ?? getPaliaDay(trackedCrop.addedAt.getTime())}
                                             onToggle={() => {
                                                 toggleCropWatered(trackedCrop.cropType);
                                                 updateCycleStatus();
                                             }}
+                                            onPlantedToday={() => setCropPlantedDay(trackedCrop.cropType, timeData.paliaDay)}
                                             showDetails={true}
                                         />
                                     );
@@ -574,14 +803,44 @@ export const MainTracker: React.FC = () => {
                     <div className="mt-3 text-center space-x-4">
                         <button className="underline text-blue-300" onClick={openCropModal}>Manage Tracked Crops</button>
                         <button className="underline text-green-300" onClick={handleImportFromPlanner}>Import from Planner</button>
+                        <button className="underline text-purple-300" onClick={() => navigate('/history')}>History</button>
+                        <button className="underline text-purple-300" onClick={() => navigate('/stats')}>Stats</button>
+                        <button className="underline text-gray-300" onClick={() => setShowSettings(!showSettings)}>Settings</button>
                     </div>
+
+                    {/* Settings Panel */}
+                    {showSettings && (
+                        <div className="mt-3 p-3 rounded-lg bg-gray-700/30 border border-white/10 text-sm text-gray-300">
+                            <label className="flex items-center justify-between">
+                                <span>Daily watering reset (Palia time)</span>
+                                <select
+                                    className="ml-3 p-1 rounded bg-gray-800 text-white border border-gray-600"
+                                    value={dailyWateringState.resetTime}
+                                    onChange={e => setResetHour(Number(e.target.value))}
+                                >
+                                    {Array.from({ length: 24 }, (_, hour) => (
+                                        <option key={hour} value={hour}>
+                                            {hour.toString().padStart(2, '0')}:00
+                                        </option>
+                                    ))}
+                                </select>
+                            </label>
+                            <p className="mt-1 text-xs text-gray-400">
+                                Crops are marked unwatered each Palia day when this hour passes.
+                            </p>
+                            <div className="mt-3 flex items-center justify-between">
+                                <span>Garden: {activeGardenName}</span>
+                                <button className="underline text-blue-300" onClick={handleRenameGarden}>Rename</button>
+                            </div>
+                        </div>
+                    )}
                 </div>
 
                 {/* Last 5 Cycles Watering Status */}
                 <div>
                     <div className="mt-4 bg-black/20 backdrop-blur-sm rounded-2xl p-4 shadow-xl border border-white/10">
                         <div className="flex items-center justify-between mb-4">
-                            <h3 className="text-lg font-semibold text-white">🔄 Last 5 Cycles Status</h3>
+                            <h3 className="text-lg font-semibold text-white">🔄 Last {RECENT_CYCLE_COUNT} Cycles Status</h3>
                             <div className="text-sm text-gray-300">
                                 {getCycleProgress()}% Complete
                             </div>
@@ -595,7 +854,7 @@ export const MainTracker: React.FC = () => {
                         </div>
                         {/* Cycle History Grid */}
                         <div className="grid grid-cols-5 gap-2">
-                            {Array.from({ length: 5 }, (_, index) => {
+                            {Array.from({ length: RECENT_CYCLE_COUNT }, (_, index) => {
                                 const cycleEntry = cycleWateringState.cycleHistory[index];
                                 const isCurrentCycle = cycleEntry?.cycleId === timeData.cycleId;
                                 const isWatered = cycleEntry?.watered || false;
@@ -630,7 +889,7 @@ export const MainTracker: React.FC = () => {
                         <div className="mt-4 p-3 bg-gray-800/30 rounded-lg">
                             <div className="flex items-center justify-between text-sm">
                                 <span className="text-gray-300">
-                                    Cycles Watered: {cycleWateringState.cycleHistory.filter(cycle => cycle.watered).length}/5
+                                    Cycles Watered: {cycleWateringState.cycleHistory.filter(cycle => cycle.watered).length}/{RECENT_CYCLE_COUNT}
                                 </span>
                                 <span className="text-gray-300">
                                     Current: {getCurrentCycleStatus() ? 'Watered' : 'Not Watered'}
@@ -638,12 +897,40 @@ export const MainTracker: React.FC = () => {
                             </div>
                             {getCycleProgress() === 100 && (
                                 <div className="mt-2 p-2 bg-green-600/20 border border-green-500/30 rounded text-center">
-                                    <span className="text-green-300 font-medium text-sm">🎉 Perfect! Last 5 cycles all watered!</span>
+                                    <span className="text-green-300 font-medium text-sm">🎉 Perfect! Last {RECENT_CYCLE_COUNT} cycles all watered!</span>
                                 </div>
                             )}
                         </div>
                     </div>
                 </div>
+
+                {/* Active Layout Garden */}
+                {wateringGarden && (
+                    <div className="md:col-span-3 bg-white rounded-2xl p-4 shadow-xl">
+                        <div className="flex items-center justify-between mb-2">
+                            <h3 className="text-lg font-semibold text-gray-800">🗺️ {activeLayoutName}</h3>
+                            <div className="space-x-4 text-sm">
+                                <button className="underline text-blue-600" onClick={handleImportFromPlanner}>Switch Layout</button>
+                                <button
+                                    className="underline text-gray-500"
+                                    onClick={() => {
+                                        if (window.confirm(`Stop following "${activeLayoutName}"? Tracked crops are kept.`)) {
+                                            runUndoable(`Detached ${activeLayoutName}`, detachLayout);
+                                        }
+                                    }}
+                                >Detach</button>
+                            </div>
+                        </div>
+                        <p className="text-sm text-gray-600 text-center">
+                            Click a plant to mark it watered. A crop counts as watered once all of its plants are.
+                        </p>
+                        <GridPreview
+                            gardenData={wateringGarden}
+                            onTileClick={handleGardenTileClick}
+                            showGrid={true}
+                        />
+                    </div>
+                )}
             </div>
 
             {/* Crop Modal */}
@@ -744,7 +1031,7 @@ export const MainTracker: React.FC = () => {
                                 <div className="text-gray-500">Loading crops...</div>
                             ) : (
                                 <form id="crop-select-form">
-                                    {filteredCrops.map((crop: any) => (
+                                    {filteredCrops.map(crop => (
                                         <CropListItem
                                             key={crop.name}
                                             crop={crop}
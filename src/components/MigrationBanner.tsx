@@ -135,7 +135,7 @@ export const MigrationBanner: React.FC<MigrationBannerProps> = ({ onMigrationCom
                   <div className="text-xs text-blue-100 space-y-1">
                     <p>• Your tracked crops will be imported as manually selected crops</p>
                     <p>• Current watering status will be preserved if available</p>
-                    <p>• Daily reset schedule (6 AM) will continue as normal</p>
+                    <p>• Daily reset schedule (6 AM, configurable in Settings) will continue as normal</p>
                     <p>• Original data will be safely removed after successful import</p>
                   </div>
                 </div>
@@ -0,0 +1,59 @@
+import React from 'react';
+import { ParseDiagnostic, ParseDiagnostics, ParseSection } from '../types/layout';
+
+interface ParseDiagnosticsComponentProps {
+  diagnostics: ParseDiagnostics;
+  className?: string;
+}
+
+const SECTION_LABELS: { [key in ParseSection]: string } = {
+  dimensions: 'Plot layout',
+  crops: 'Crops',
+  settings: 'Settings'
+};
+
+export const ParseDiagnosticsComponent: React.FC<ParseDiagnosticsComponentProps> = ({
+  diagnostics,
+  className = ''
+}) => {
+  const { errors, warnings } = diagnostics;
+
+  if (errors.length === 0 && warnings.length === 0) {
+    return null;
+  }
+
+  const renderDiagnostic = (diagnostic: ParseDiagnostic, index: number) => {
+    const isError = diagnostic.severity === 'error';
+    return (
+      <li
+        key={`${diagnostic.severity}-${index}`}
+        className={`p-2 rounded-lg border text-sm ${
+          isError ? 'bg-red-50 border-red-200 text-red-700' : 'bg-yellow-50 border-yellow-200 text-yellow-800'
+        }`}
+      >
+        <span className="font-medium">{isError ? '❌' : '⚠️'} {SECTION_LABELS[diagnostic.section]}:</span>{' '}
+        {diagnostic.message}
+      </li>
+    );
+  };
+
+  return (
+    <div className={`bg-white rounded-lg border border-gray-200 ${className}`}>
+      {/* Header */}
+      <div className="p-4 border-b border-gray-200">
+        <h3 className="text-lg font-semibold text-gray-800">
+          Import Problems
+        </h3>
+        <p className="text-sm text-gray-600">
+          {errors.length} error{errors.length !== 1 ? 's' : ''}, {warnings.length} warning{warnings.length !== 1 ? 's' : ''}.
+          {errors.length > 0 && ' Re-export the layout from the planner to fix errors.'}
+        </p>
+      </div>
+
+      <ul className="p-4 space-y-2 max-h-64 overflow-y-auto">
+        {errors.map(renderDiagnostic)}
+        {warnings.map(renderDiagnostic)}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React from 'react';
+import { PlannerSettings } from '../types/layout';
+
+interface PlannerSettingsComponentProps {
+  settings: PlannerSettings;
+  className?: string;
+}
+
+export const PlannerSettingsComponent: React.FC<PlannerSettingsComponentProps> = ({
+  settings,
+  className = ''
+}) => {
+  const hasGeneralSettings = settings.harvestDays !== undefined || settings.gardeningLevel !== undefined;
+
+  return (
+    <div className={`bg-white rounded-lg border border-gray-200 ${className}`}>
+      {/* Header */}
+      <div className="p-4 border-b border-gray-200">
+        <h3 className="text-lg font-semibold text-gray-800">
+          Planner Settings
+        </h3>
+        <p className="text-sm text-gray-600">
+          Harvest calculator options saved with this layout
+        </p>
+      </div>
+
+      <div className="p-4 space-y-4">
+        {!hasGeneralSettings && settings.unknownTokens.length === 0 && (
+          <p className="text-sm text-gray-500">No settings saved with this layout.</p>
+        )}
+
+        {/* General Settings */}
+        {hasGeneralSettings && (
+          <dl className="grid grid-cols-2 gap-2 text-sm">
+            {settings.harvestDays !== undefined && (
+              <>
+                <dt className="text-gray-600">Harvest days</dt>
+                <dd className="text-gray-800 font-medium text-right">{settings.harvestDays}</dd>
+              </>
+            )}
+            {settings.gardeningLevel !== undefined && (
+              <>
+                <dt className="text-gray-600">Gardening level</dt>
+                <dd className="text-gray-800 font-medium text-right">{settings.gardeningLevel}</dd>
+              </>
+            )}
+          </dl>
+        )}
+
+        {settings.unknownTokens.length > 0 && (
+          <p className="text-xs text-gray-500">
+            Unrecognised settings: {settings.unknownTokens.join(', ')}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import React from 'react';
 import { Plant } from '../types';
+import { CropCatalog } from '../services/cropCatalog';
 
 interface PlantComponentProps {
   plant: Plant;
@@ -7,32 +8,10 @@ interface PlantComponentProps {
 }
 
 export const PlantComponent: React.FC<PlantComponentProps> = ({ plant, onToggleWater }) => {
-  const getPlantEmoji = (name: string): string => {
-    switch (name) {
-      case 'Tomato': return '🍅';
-      case 'Wheat': return '🌾';
-      case 'Rice': return '🌾';
-      case 'Potato': return '🥔';
-      case 'Carrot': return '🥕';
-      case 'Onion': return '🧅';
-      case 'Lettuce': return '🥬';
-      case 'Cotton': return '🌱';
-      case 'Apple': return '🍎';
-      case 'Blueberry': return '🫐';
-      case 'Bok Choy': return '🥬';
-      case 'Napa Cabbage': return '🥬';
-      case 'Spicy Pepper': return '🌶️';
-      case 'Batterfly Beans': return '🫘';
-      case 'Rockhopper Pumpkin': return '🎃';
-      case 'Corn': return '🌽';
-      default: return '🌱';
-    }
-  };
-
   return (
     <div className="flex items-center justify-between p-2 bg-gray-700/20 rounded-lg">
       <div className="flex items-center space-x-3">
-        <span className="text-2xl">{getPlantEmoji(plant.name)}</span>
+        <span className="text-2xl">{CropCatalog.getEmoji(plant.name) || '🌱'}</span>
         <div>
           <div className="font-medium text-gray-300">{plant.name}</div>
           <div className="text-xs text-gray-400">ID: {plant.id}</div>
@@ -1,34 +1,16 @@
 import React from 'react';
-import { GridTile } from '../types/layout';
+import { GardenBuff, GridTile } from '../types/layout';
+import { CropCatalog } from '../services/cropCatalog';
 
 interface TileComponentProps {
   tile: GridTile;
   size?: number;
   showTooltip?: boolean;
   onClick?: (tile: GridTile) => void;
+  /** Garden buffs the tile receives; when given, planted tiles without any are highlighted */
+  buffs?: GardenBuff[];
 }
 
-/**
- * Maps crop names to image filenames
- */
-const CROP_IMAGE_MAP: { [key: string]: string } = {
-  'Apple': '65px-Apple.webp',
-  'Batterfly Bean': '65px-Batterfly_Beans.webp',
-  'Blueberry': '65px-Blueberries.webp',
-  'Bok Choy': '65px-Bok_Choy.webp',
-  'Carrot': '65px-Carrot.webp',
-  'Cotton': '65px-Cotton.webp',
-  'Napa Cabbage': '65px-Napa_Cabbage.webp',
-  'Onion': '65px-Onion.webp',
-  'Potato': '65px-Potato.webp',
-  'Rice': '65px-Rice.webp',
-  'Rockhopper Pumpkin': '65px-Rockhopper_Pumpkin.webp',
-  'Spicy Pepper': '65px-Spicy_Pepper.webp',
-  'Tomato': '65px-Tomato.webp',
-  'Wheat': '65px-Wheat.webp',
-  'Corn': 'Corn.png',
-};
-
 /**
  * Fertilizer color mappings for visual indicators
  */
@@ -44,7 +26,8 @@ export const TileComponent: React.FC<TileComponentProps> = ({
   tile,
   size = 32,
   showTooltip = true,
-  onClick
+  onClick,
+  buffs
 }) => {
   const handleClick = () => {
     if (onClick) {
@@ -52,35 +35,8 @@ export const TileComponent: React.FC<TileComponentProps> = ({
     }
   };
 
-  const getCropImage = (cropType: string): string => {
-    const imageName = CROP_IMAGE_MAP[cropType];
-    return imageName ? `/images/${imageName}` : '/images/65px-Wheat.webp'; // Fallback
-  };
-
-  const getCropEmoji = (cropType: string): string => {
-    switch (cropType) {
-      case 'Corn': return '🌽';
-      case 'Tomato': return '🍅';
-      case 'Wheat': return '🌾';
-      case 'Rice': return '🌾';
-      case 'Potato': return '🥔';
-      case 'Carrot': return '🥕';
-      case 'Onion': return '🧅';
-      case 'Lettuce': return '🥬';
-      case 'Cotton': return '🌱';
-      case 'Apple': return '🍎';
-      case 'Blueberry': return '🫐';
-      case 'Bok Choy': return '🥬';
-      case 'Napa Cabbage': return '🥬';
-      case 'Spicy Pepper': return '🌶️';
-      case 'Batterfly Bean': return '🫘';
-      case 'Rockhopper Pumpkin': return '🎃';
-      default: return '';
-    }
-  };
-
   const isEmojiCrop = (cropType: string): boolean => {
-    return getCropEmoji(cropType) !== '';
+    return CropCatalog.getEmoji(cropType) !== '';
   };
 
   const renderTileContent = () => {
@@ -118,11 +74,11 @@ export const TileComponent: React.FC<TileComponentProps> = ({
         {/* Crop Image */}
         {isEmojiCrop(tile.cropType) ? (
           <div className="w-full h-full flex items-center justify-center text-lg p-0.5">
-            {getCropEmoji(tile.cropType)}
+            {CropCatalog.getEmoji(tile.cropType)}
           </div>
         ) : (
           <img
-            src={getCropImage(tile.cropType)}
+            src={CropCatalog.getImage(tile.cropType)}
             alt={tile.cropType}
             className="w-full h-full object-contain p-0.5"
             onError={(e) => {
@@ -146,6 +102,11 @@ export const TileComponent: React.FC<TileComponentProps> = ({
           />
         )}
         
+        {/* Unbuffed Highlight */}
+        {buffs && buffs.length === 0 && (
+          <div className="absolute inset-0 bg-yellow-300/50 ring-2 ring-inset ring-yellow-500 pointer-events-none" />
+        )}
+        
         {/* Watering Status Indicator */}
         {tile.needsWater && (
           <div 
@@ -181,6 +142,9 @@ export const TileComponent: React.FC<TileComponentProps> = ({
           {tile.fertilizerType && tile.fertilizerType !== 'None' && (
             <div className="text-gray-300">Fertilizer: {tile.fertilizerType}</div>
           )}
+          {buffs && (
+            <div className="text-gray-300">Buffs: {buffs.length > 0 ? buffs.join(', ') : 'None'}</div>
+          )}
           <div className={tile.needsWater ? 'text-red-300' : 'text-green-300'}>
             {tile.needsWater ? 'Needs Water' : 'Watered'}
           </div>
@@ -0,0 +1,45 @@
+import React, { useEffect } from 'react';
+
+/** How long a toast stays on screen */
+const TOAST_DURATION_MS = 6000;
+
+interface UndoToastProps {
+  message: string;
+  actionLabel: string;
+  onAction: () => void;
+  onDismiss: () => void;
+}
+
+export const UndoToast: React.FC<UndoToastProps> = ({
+  message,
+  actionLabel,
+  onAction,
+  onDismiss
+}) => {
+  // Restart the timer whenever a new message is shown
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [message, onDismiss]);
+
+  return (
+    <div className="fixed bottom-4 left-1/2 transform -translate-x-1/2 z-50" role="status">
+      <div className="flex items-center gap-4 bg-gray-900/95 text-white text-sm rounded-lg shadow-lg border border-white/10 px-4 py-3">
+        <span>{message}</span>
+        <button
+          onClick={onAction}
+          className="font-semibold text-blue-300 hover:text-blue-200 transition-colors"
+        >
+          {actionLabel}
+        </button>
+        <button
+          onClick={onDismiss}
+          className="text-gray-400 hover:text-white transition-colors"
+          aria-label="Dismiss"
+        >
+          ✕
+        </button>
+      </div>
+    </div>
+  );
+};
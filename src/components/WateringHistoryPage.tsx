@@ -0,0 +1,138 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useUnifiedGardenStore, initializeUnifiedStore } from '../hooks/useUnifiedGardenStore';
+import { CropCatalog } from '../services/cropCatalog';
+import { getPaliaTime, getRealTimeOfPaliaDay } from '../services/paliaTime';
+import { getMissedDaysThisWeek, getWateringStreak, summarizeWateringDays } from '../services/wateringLog';
+
+/** Days listed before "Show more" is needed */
+const DAYS_PER_PAGE = 30;
+
+export const WateringHistoryPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [visibleDays, setVisibleDays] = useState(DAYS_PER_PAGE);
+
+  const {
+    trackedCrops,
+    dailyWateringState,
+    gardens,
+    activeGardenId,
+    wateringLog,
+    isInitialized
+  } = useUnifiedGardenStore();
+
+  useEffect(() => {
+    initializeUnifiedStore();
+  }, []);
+
+  const resetHour = dailyWateringState.resetTime;
+  const gardenId = activeGardenId ?? '';
+  const gardenName = gardens.find(garden => garden.id === activeGardenId)?.name ?? '';
+  const now = Date.now();
+
+  const days = useMemo(() => summarizeWateringDays(wateringLog, gardenId), [wateringLog, gardenId]);
+  const missedThisWeek = getMissedDaysThisWeek(wateringLog, gardenId, now, resetHour);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center h-16 space-x-4">
+            <button
+              onClick={() => navigate('/')}
+              className="flex items-center space-x-2 text-gray-600 hover:text-gray-900 transition-colors"
+            >
+              <span>←</span>
+              <span>Back to Tracker</span>
+            </button>
+            <div className="h-6 w-px bg-gray-300"></div>
+            <h1 className="text-xl font-semibold text-gray-900">Watering History{gardenName && ` · ${gardenName}`}</h1>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {!isInitialized ? (
+          <div className="text-gray-500 text-center">Loading...</div>
+        ) : (
+          <>
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-medium text-gray-900">Streaks</h2>
+                <span className={`text-sm ${missedThisWeek.length > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                  {missedThisWeek.length === 0
+                    ? 'No missed days this week'
+                    : `${missedThisWeek.length} missed day${missedThisWeek.length !== 1 ? 's' : ''} this week`}
+                </span>
+              </div>
+              {trackedCrops.length === 0 ? (
+                <p className="text-sm text-gray-500">No crops tracked.</p>
+              ) : (
+                <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+                  {trackedCrops.map(crop => {
+                    const streak = getWateringStreak(wateringLog, gardenId, crop.cropType);
+                    const missed = getMissedDaysThisWeek(wateringLog, gardenId, now, resetHour, crop.cropType).length;
+                    return (
+                      <div key={crop.cropType} className="flex items-center gap-3 border border-gray-200 rounded-lg p-3">
+                        <img src={CropCatalog.getImage(crop.cropType)} alt={crop.cropType} className="w-8 h-8" />
+                        <div className="text-sm">
+                          <div className="font-medium text-gray-900">{crop.cropType}</div>
+                          <div className="text-gray-600">🔥 {streak} day{streak !== 1 ? 's' : ''}</div>
+                          {missed > 0 && <div className="text-red-600">{missed} missed this week</div>}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <h2 className="text-lg font-medium text-gray-900 mb-1">Daily Log</h2>
+              <p className="text-sm text-gray-500 mb-4">
+                Each day runs from one watering reset to the next and is recorded once it ends.
+              </p>
+              {days.length === 0 ? (
+                <p className="text-sm text-gray-500">No days recorded yet.</p>
+              ) : (
+                <div className="divide-y divide-gray-100">
+                  {days.slice(0, visibleDays).map(day => {
+                    const dayStart = getRealTimeOfPaliaDay(day.paliaDay, resetHour);
+                    return (
+                      <div key={day.paliaDay} className="py-3 flex flex-col sm:flex-row sm:items-center gap-2">
+                        <div className="sm:w-56 text-sm">
+                          <div className="font-medium text-gray-900">{getPaliaTime(dayStart).dayText}</div>
+                          <div className="text-gray-500">{new Date(dayStart).toLocaleString()}</div>
+                        </div>
+                        <div className="flex flex-wrap gap-2">
+                          {day.records.map(record => (
+                            <span
+                              key={record.cropType}
+                              className={`px-2 py-1 rounded text-xs ${record.watered ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}
+                            >
+                              {record.watered ? '✓' : '✗'} {record.cropType}
+                            </span>
+                          ))}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+              {days.length > visibleDays && (
+                <button
+                  onClick={() => setVisibleDays(visibleDays + DAYS_PER_PAGE)}
+                  className="mt-4 text-sm text-blue-600 underline"
+                >
+                  Show more
+                </button>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,204 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useUnifiedGardenStore, initializeUnifiedStore } from '../hooks/useUnifiedGardenStore';
+import { CropCatalog } from '../services/cropCatalog';
+import {
+  WateringCompletion,
+  getCompletionHeatmap,
+  getCompletionPercent,
+  getCropWateringStreaks,
+  getGardenWateringStreaks,
+  getLoggedCropTypes,
+  getWeeklyCompletion,
+  summarizeWateringDays
+} from '../services/wateringLog';
+
+/** Heatmap cell color by completion */
+const getHeatmapColor = (completion: WateringCompletion | null): string => {
+  if (!completion) return 'bg-gray-100';
+  const percent = getCompletionPercent(completion);
+  if (percent === 100) return 'bg-green-600';
+  if (percent >= 75) return 'bg-green-400';
+  if (percent >= 50) return 'bg-yellow-300';
+  if (percent > 0) return 'bg-orange-300';
+  return 'bg-red-400';
+};
+
+const StatCard: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="bg-white rounded-lg shadow-sm p-4">
+    <div className="text-sm text-gray-500">{label}</div>
+    <div className="text-2xl font-semibold text-gray-900">{value}</div>
+  </div>
+);
+
+export const WateringStatsPage: React.FC = () => {
+  const navigate = useNavigate();
+
+  const {
+    gardens,
+    activeGardenId,
+    dailyWateringState,
+    wateringLog,
+    isInitialized
+  } = useUnifiedGardenStore();
+
+  const [selectedGardenId, setSelectedGardenId] = useState<string | null>(null);
+
+  useEffect(() => {
+    initializeUnifiedStore();
+  }, []);
+
+  const gardenId = selectedGardenId ?? activeGardenId ?? '';
+  const resetHour = dailyWateringState.resetTime;
+
+  const stats = useMemo(() => {
+    const days = summarizeWateringDays(wateringLog, gardenId);
+    return {
+      gardenStreaks: getGardenWateringStreaks(wateringLog, gardenId),
+      cropStreaks: getLoggedCropTypes(wateringLog, gardenId).map(cropType => ({
+        cropType,
+        ...getCropWateringStreaks(wateringLog, gardenId, cropType)
+      })),
+      missedDays: days.filter(day => day.missedCount > 0).length,
+      recordedDays: days.length,
+      weeks: getWeeklyCompletion(wateringLog, gardenId, resetHour),
+      heatmap: getCompletionHeatmap(wateringLog, gardenId, resetHour)
+    };
+  }, [wateringLog, gardenId, resetHour]);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center space-x-4">
+              <button
+                onClick={() => navigate('/')}
+                className="flex items-center space-x-2 text-gray-600 hover:text-gray-900 transition-colors"
+              >
+                <span>←</span>
+                <span>Back to Tracker</span>
+              </button>
+              <div className="h-6 w-px bg-gray-300"></div>
+              <h1 className="text-xl font-semibold text-gray-900">Watering Stats</h1>
+            </div>
+            {gardens.length > 1 && (
+              <select
+                className="p-1 rounded border border-gray-300 text-sm"
+                value={gardenId}
+                onChange={e => setSelectedGardenId(e.target.value)}
+              >
+                {gardens.map(garden => (
+                  <option key={garden.id} value={garden.id}>{garden.name}</option>
+                ))}
+              </select>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {!isInitialized ? (
+          <div className="text-gray-500 text-center">Loading...</div>
+        ) : stats.recordedDays === 0 ? (
+          <div className="bg-white rounded-lg shadow-sm p-6 text-sm text-gray-500">
+            No days recorded for this garden yet. A day is recorded when the daily watering reset passes.
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              <StatCard label="Current streak" value={`${stats.gardenStreaks.current} days`} />
+              <StatCard label="Best streak" value={`${stats.gardenStreaks.best} days`} />
+              <StatCard label="Missed days" value={`${stats.missedDays} of ${stats.recordedDays}`} />
+              <StatCard label="Latest week" value={`${getCompletionPercent(stats.weeks[0])}%`} />
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {/* Per-crop streaks */}
+              <div className="bg-white rounded-lg shadow-sm p-6">
+                <h2 className="text-lg font-medium text-gray-900 mb-4">Streaks by Crop</h2>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="pb-2 font-medium">Crop</th>
+                      <th className="pb-2 font-medium text-right">Current</th>
+                      <th className="pb-2 font-medium text-right">Best</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {stats.cropStreaks.map(crop => (
+                      <tr key={crop.cropType}>
+                        <td className="py-2 flex items-center gap-2">
+                          <img src={CropCatalog.getImage(crop.cropType)} alt={crop.cropType} className="w-6 h-6" />
+                          {crop.cropType}
+                        </td>
+                        <td className="py-2 text-right">{crop.current}</td>
+                        <td className="py-2 text-right">{crop.best}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Weekly completion */}
+              <div className="bg-white rounded-lg shadow-sm p-6">
+                <h2 className="text-lg font-medium text-gray-900 mb-4">Weekly Completion</h2>
+                <div className="space-y-3">
+                  {stats.weeks.map(week => {
+                    const percent = getCompletionPercent(week);
+                    return (
+                      <div key={week.weekIdentifier} className="text-sm">
+                        <div className="flex justify-between text-gray-600 mb-1">
+                          <span>{week.weekIdentifier}</span>
+                          <span>{percent}% ({week.wateredCount}/{week.totalCount})</span>
+                        </div>
+                        <div className="bg-gray-200 rounded-full h-2 overflow-hidden">
+                          <div className="h-full bg-green-500" style={{ width: `${percent}%` }}></div>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            </div>
+
+            {/* Heatmap */}
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <h2 className="text-lg font-medium text-gray-900 mb-1">Calendar</h2>
+              <p className="text-sm text-gray-500 mb-4">
+                One row per Palia week; each cell is one day of the week (24 Palia days).
+              </p>
+              <table className="text-xs text-gray-500">
+                <thead>
+                  <tr>
+                    <th></th>
+                    {Array.from({ length: 7 }, (_, index) => (
+                      <th key={index} className="px-1 pb-1 font-medium">Day {index + 1}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {stats.heatmap.map(week => (
+                    <tr key={week.weekIdentifier}>
+                      <td className="pr-3 whitespace-nowrap">{week.weekIdentifier}</td>
+                      {week.days.map((day, index) => (
+                        <td key={index} className="p-1">
+                          <div
+                            className={`w-10 h-6 rounded ${getHeatmapColor(day)}`}
+                            title={day ? `${day.wateredCount}/${day.totalCount} watered` : 'No records'}
+                          ></div>
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+import React from 'react';
+import { LayoutYield } from '../types/crop';
+import { CropCatalog } from '../services/cropCatalog';
+
+interface YieldCalculatorComponentProps {
+  yieldData: LayoutYield;
+  className?: string;
+}
+
+const formatNumber = (value: number): string =>
+  value.toLocaleString(undefined, { maximumFractionDigits: value >= 100 ? 0 : 1 });
+
+export const YieldCalculatorComponent: React.FC<YieldCalculatorComponentProps> = ({
+  yieldData,
+  className = ''
+}) => {
+  return (
+    <div className={`bg-white rounded-lg border border-gray-200 ${className}`}>
+      {/* Header */}
+      <div className="p-4 border-b border-gray-200">
+        <h3 className="text-lg font-semibold text-gray-800">
+          Yield Calculator
+        </h3>
+        <p className="text-sm text-gray-600">
+          Expected output when watered and harvested daily and sold unprocessed
+        </p>
+      </div>
+
+      <div className="p-4 space-y-4">
+        {yieldData.crops.length === 0 ? (
+          <p className="text-sm text-gray-500">No crops with known market data.</p>
+        ) : (
+          <>
+            {/* Totals */}
+            <dl className="grid grid-cols-3 gap-2 text-sm">
+              <dt></dt>
+              <dt className="text-gray-600 text-right">Produce</dt>
+              <dt className="text-gray-600 text-right">Gold</dt>
+              <dt className="text-gray-600">Per Palia day</dt>
+              <dd className="text-gray-800 font-medium text-right">{formatNumber(yieldData.producePerDay)}</dd>
+              <dd className="text-gray-800 font-medium text-right">{formatNumber(yieldData.goldPerDay)}</dd>
+              <dt className="text-gray-600">Per real week</dt>
+              <dd className="text-gray-800 font-medium text-right">{formatNumber(yieldData.producePerWeek)}</dd>
+              <dd className="text-gray-800 font-medium text-right">{formatNumber(yieldData.goldPerWeek)}</dd>
+            </dl>
+
+            {/* Per-crop Output */}
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {yieldData.crops.map(crop => (
+                <div
+                  key={crop.cropType}
+                  className="flex items-center justify-between p-2 rounded-lg border border-gray-100 text-sm"
+                >
+                  <div className="flex items-center space-x-2 min-w-0">
+                    <img src={CropCatalog.getImage(crop.cropType)} alt={crop.cropType} className="w-6 h-6 flex-shrink-0" />
+                    <div className="min-w-0">
+                      <div className="text-gray-800 font-medium truncate">{crop.cropType} × {crop.plants}</div>
+                      <div className="text-xs text-gray-500">
+                        {formatNumber(crop.producePerDay)}/day
+                        {crop.starShare > 0 && ` • ${Math.round(crop.starShare * 100)}% ⭐`}
+                        {crop.harvestBoostPlants > 0 && ` • ${crop.harvestBoostPlants} boosted`}
+                      </div>
+                    </div>
+                  </div>
+                  <span className="text-gray-800 font-medium flex-shrink-0">{formatNumber(crop.goldPerDay)}g/day</span>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        {yieldData.unknownCrops.length > 0 && (
+          <p className="text-xs text-gray-500">
+            No market data for: {yieldData.unknownCrops.join(', ')}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
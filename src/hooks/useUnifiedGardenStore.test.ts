@@ -0,0 +1,387 @@
+import { MemoryStorageAdapter } from '../services/storageAdapter';
+import { DEFAULT_GARDEN_NAME, PersistedGardenData, STORAGE_KEYS, WateringRecord } from '../types/unified';
+
+type StoreModule = typeof import('./useUnifiedGardenStore');
+type LayoutServiceModule = typeof import('../services/layoutService');
+
+const HOUR = 60 * 60 * 1000;
+const SAVE_CODE = 'v0.4_D-1_CR-TTTTTTTTT';
+
+let store: StoreModule;
+let layoutService: LayoutServiceModule['layoutService'];
+let storage: MemoryStorageAdapter;
+
+const getState = () => store.useUnifiedGardenStore.getState();
+
+/**
+ * Write the debounced changes and wait for the storage writes to finish
+ */
+const flushWrites = async () => {
+  store.flushPersistence();
+  await new Promise(resolve => setTimeout(resolve, 0));
+};
+
+const readStored = async (): Promise<PersistedGardenData> =>
+  JSON.parse((await storage.getItem(STORAGE_KEYS.UNIFIED_GARDEN)) as string);
+
+const readStoredLog = async (): Promise<WateringRecord[]> =>
+  JSON.parse((await storage.getItem(STORAGE_KEYS.WATERING_LOG)) ?? '[]');
+
+beforeEach(async () => {
+  // The store keeps its persistence state in module variables, so every test gets fresh modules
+  jest.resetModules();
+  localStorage.clear();
+  store = require('./useUnifiedGardenStore');
+  layoutService = require('../services/layoutService').layoutService;
+
+  storage = new MemoryStorageAdapter();
+  store.setUnifiedStorage(storage);
+  await store.initializeUnifiedStore();
+  getState().syncDailyReset(Date.now());
+  await flushWrites();
+});
+
+describe('selectPersistedData', () => {
+  it('selects every persisted field and nothing else', () => {
+    expect(Object.keys(store.selectPersistedData(getState())).sort()).toEqual([
+      'activeGardenId',
+      'activeLayoutId',
+      'dailyWateringState',
+      'gardens',
+      'migratedFromLegacy',
+      'trackedCrops',
+      'version'
+    ]);
+  });
+});
+
+describe('persistence', () => {
+  it('saves the initial data when the store is created', async () => {
+    const stored = await readStored();
+    expect(stored.activeGardenId).toBe(getState().activeGardenId);
+    expect(stored.gardens).toHaveLength(1);
+  });
+
+  it('saves an added crop', async () => {
+    getState().addCropManually('Tomato');
+    await flushWrites();
+
+    expect((await readStored()).trackedCrops.map(crop => crop.cropType)).toEqual(['Tomato']);
+  });
+
+  it('saves a removed crop', async () => {
+    getState().addCropManually('Tomato');
+    getState().addCropManually('Potato');
+    await flushWrites();
+
+    getState().removeCrop('Tomato');
+    await flushWrites();
+
+    expect((await readStored()).trackedCrops.map(crop => crop.cropType)).toEqual(['Potato']);
+  });
+
+  it('saves a watered crop', async () => {
+    getState().addCropManually('Tomato');
+    await flushWrites();
+
+    getState().toggleCropWatered('Tomato');
+    await flushWrites();
+
+    const [crop] = (await readStored()).trackedCrops;
+    expect(crop.isWatered).toBe(true);
+    expect(crop.daysWatered).toBe(1);
+    expect(crop.lastWateredAt).toBeDefined();
+  });
+
+  it('saves the daily reset and logs the day that ended', async () => {
+    getState().addCropManually('Tomato');
+    getState().toggleCropWatered('Tomato');
+    await flushWrites();
+    const resetDay = getState().dailyWateringState.lastResetPaliaDay as number;
+
+    getState().syncDailyReset(Date.now() + HOUR);
+    await flushWrites();
+
+    const stored = await readStored();
+    expect(stored.trackedCrops[0].isWatered).toBe(false);
+    expect(stored.dailyWateringState.lastResetPaliaDay).toBe(resetDay + 1);
+    expect(await readStoredLog()).toEqual([
+      expect.objectContaining({ cropType: 'Tomato', paliaDay: resetDay, watered: true })
+    ]);
+  });
+
+  it('saves a garden switch', async () => {
+    getState().addCropManually('Tomato');
+    getState().createGarden('Second');
+    await flushWrites();
+    const firstGardenId = getState().activeGardenId;
+    const secondGardenId = getState().gardens[1].id;
+
+    getState().switchGarden(secondGardenId);
+    await flushWrites();
+
+    const stored = await readStored();
+    expect(stored.activeGardenId).toBe(secondGardenId);
+    expect(stored.trackedCrops).toEqual([]);
+    expect(stored.gardens.find(garden => garden.id === firstGardenId)?.trackedCrops.map(crop => crop.cropType))
+      .toEqual(['Tomato']);
+  });
+
+  it('saves a loaded layout', async () => {
+    const saveResult = await layoutService.saveLayout(SAVE_CODE, 'Tomatoes');
+    const layoutId = saveResult.data!.metadata.id;
+
+    await getState().loadLayoutById(layoutId);
+    await flushWrites();
+
+    const stored = await readStored();
+    expect(stored.activeLayoutId).toBe(layoutId);
+    expect(stored.trackedCrops.map(crop => [crop.cropType, crop.plantInstances.length])).toEqual([['Tomato', 9]]);
+  });
+
+  it('saves crops imported from a garden', async () => {
+    getState().importPlantsFromGarden([
+      { id: 'plant-0-0', name: 'Tomato', needsWater: true },
+      { id: 'plant-0-1', name: 'Tomato', needsWater: true }
+    ]);
+    await flushWrites();
+
+    const [crop] = (await readStored()).trackedCrops;
+    expect([crop.cropType, crop.source, crop.totalCount]).toEqual(['Tomato', 'import', 2]);
+  });
+
+  it('saves updated plant instances', async () => {
+    getState().importPlantsFromGarden([{ id: 'plant-0-0', name: 'Tomato', needsWater: true }]);
+    await flushWrites();
+
+    getState().updatePlantInstances('Tomato', [
+      { id: 'plant-0-0', name: 'Tomato', needsWater: true },
+      { id: 'plant-1-0', name: 'Tomato', needsWater: true }
+    ]);
+    await flushWrites();
+
+    const [crop] = (await readStored()).trackedCrops;
+    expect(crop.plantInstances.map(plant => plant.id)).toEqual(['plant-0-0', 'plant-1-0']);
+    expect(crop.totalCount).toBe(2);
+  });
+
+  it('saves a watered plant', async () => {
+    await getState().loadLayoutById((await layoutService.saveLayout(SAVE_CODE, 'Tomatoes')).data!.metadata.id);
+    await flushWrites();
+    const plantId = getState().trackedCrops[0].plantInstances[0].id;
+
+    getState().togglePlantWatered(plantId);
+    await flushWrites();
+
+    const [crop] = (await readStored()).trackedCrops;
+    expect(crop.plantInstances.filter(plant => !plant.needsWater).map(plant => plant.id)).toEqual([plantId]);
+    expect(crop.isWatered).toBe(false);
+  });
+
+  it('saves Water All', async () => {
+    getState().addCropManually('Tomato');
+    getState().addCropManually('Potato');
+    await flushWrites();
+
+    getState().waterAllCrops();
+    await flushWrites();
+
+    expect((await readStored()).trackedCrops.map(crop => [crop.isWatered, crop.daysWatered])).toEqual([[true, 1], [true, 1]]);
+  });
+
+  it('saves Water None', async () => {
+    getState().addCropManually('Tomato');
+    getState().waterAllCrops();
+    await flushWrites();
+
+    getState().waterNoneCrops();
+    await flushWrites();
+
+    const [crop] = (await readStored()).trackedCrops;
+    expect([crop.isWatered, crop.daysWatered]).toEqual([false, 0]);
+  });
+
+  it('saves a planting day', async () => {
+    getState().addCropManually('Tomato');
+    getState().toggleCropWatered('Tomato');
+    await flushWrites();
+
+    getState().setCropPlantedDay('Tomato', 1234);
+    await flushWrites();
+
+    const [crop] = (await readStored()).trackedCrops;
+    expect([crop.plantedOnDay, crop.daysWatered]).toEqual([1234, 1]);
+  });
+
+  it('saves cleared crops', async () => {
+    getState().addCropManually('Tomato');
+    await flushWrites();
+
+    getState().clearAllCrops();
+    await flushWrites();
+
+    expect((await readStored()).trackedCrops).toEqual([]);
+  });
+
+  it('saves a detached layout', async () => {
+    await getState().loadLayoutById((await layoutService.saveLayout(SAVE_CODE, 'Tomatoes')).data!.metadata.id);
+    await flushWrites();
+
+    getState().detachLayout();
+    await flushWrites();
+
+    const stored = await readStored();
+    expect(stored.activeLayoutId).toBeNull();
+    expect(stored.trackedCrops.map(crop => [crop.cropType, crop.plantInstances.length])).toEqual([['Tomato', 0]]);
+  });
+
+  it('saves a new garden', async () => {
+    getState().createGarden('Second');
+    await flushWrites();
+
+    expect((await readStored()).gardens.map(garden => garden.name)).toEqual([DEFAULT_GARDEN_NAME, 'Second']);
+  });
+
+  it('saves a renamed garden', async () => {
+    getState().renameGarden(getState().activeGardenId as string, 'Front Yard');
+    await flushWrites();
+
+    expect((await readStored()).gardens.map(garden => garden.name)).toEqual(['Front Yard']);
+  });
+
+  it('saves a deleted garden', async () => {
+    getState().createGarden('Second');
+    await flushWrites();
+
+    getState().deleteGarden(getState().gardens[1].id);
+    await flushWrites();
+
+    expect((await readStored()).gardens.map(garden => garden.name)).toEqual([DEFAULT_GARDEN_NAME]);
+  });
+
+  it.each([
+    ['merge', ['Potato', 'Tomato']],
+    ['replace', ['Tomato']]
+  ] as const)('saves a layout saved and loaded in %s mode', async (mode, cropTypes) => {
+    getState().addCropManually('Potato');
+    await flushWrites();
+
+    await getState().saveAndLoadLayout(SAVE_CODE, 'Tomatoes', { mode });
+    await flushWrites();
+
+    const stored = await readStored();
+    expect(stored.activeLayoutId).toBe((await layoutService.searchLayouts()).data?.[0].metadata.id);
+    expect(stored.trackedCrops.map(crop => crop.cropType)).toEqual(cropTypes);
+  });
+
+  it.each([
+    ['merge', ['Potato', 'Tomato']],
+    ['replace', ['Tomato']]
+  ] as const)('saves a layout loaded in %s mode', async (mode, cropTypes) => {
+    const layoutId = (await layoutService.saveLayout(SAVE_CODE, 'Tomatoes')).data!.metadata.id;
+    getState().addCropManually('Potato');
+    await flushWrites();
+
+    await getState().loadLayoutById(layoutId, mode);
+    await flushWrites();
+
+    const stored = await readStored();
+    expect(stored.activeLayoutId).toBe(layoutId);
+    expect(stored.trackedCrops.map(crop => crop.cropType)).toEqual(cropTypes);
+  });
+
+  it('saves an undo and a redo', async () => {
+    getState().addCropManually('Tomato');
+    await flushWrites();
+
+    getState().undo();
+    await flushWrites();
+    expect((await readStored()).trackedCrops).toEqual([]);
+
+    getState().redo();
+    await flushWrites();
+    expect((await readStored()).trackedCrops.map(crop => crop.cropType)).toEqual(['Tomato']);
+  });
+
+  it('keeps the legacy import flag through later actions', async () => {
+    getState().importFromLegacyData({ trackedCrops: ['Tomato'] });
+    await flushWrites();
+    expect((await readStored()).migratedFromLegacy).toBe(true);
+
+    getState().addCropManually('Potato');
+    getState().toggleCropWatered('Potato');
+    await flushWrites();
+
+    const stored = await readStored();
+    expect(stored.migratedFromLegacy).toBe(true);
+    expect(stored.trackedCrops.map(crop => crop.cropType)).toEqual(['Tomato', 'Potato']);
+  });
+
+  it('saves a new reset hour for every garden', async () => {
+    getState().createGarden('Second');
+    await flushWrites();
+
+    getState().setResetHour(9);
+    await flushWrites();
+
+    const stored = await readStored();
+    expect(stored.dailyWateringState.resetTime).toBe(9);
+    expect(stored.gardens.map(garden => garden.dailyWateringState.resetTime)).toEqual([9, 9]);
+  });
+
+  it('does not write when only state that is not persisted changes', async () => {
+    const { lastSaved } = await readStored();
+
+    store.useUnifiedGardenStore.setState({ isLoading: true, lastError: 'Failed' });
+    await flushWrites();
+
+    expect((await readStored()).lastSaved).toBe(lastSaved);
+  });
+
+  it('writes a burst of actions once', async () => {
+    const setItem = jest.spyOn(storage, 'setItem');
+
+    getState().addCropManually('Tomato');
+    getState().addCropManually('Potato');
+    getState().waterAllCrops();
+    await flushWrites();
+
+    expect(setItem.mock.calls.filter(([key]) => key === STORAGE_KEYS.UNIFIED_GARDEN)).toHaveLength(1);
+  });
+});
+
+describe('undo history', () => {
+  it('does not record getters or a daily reset check that changes nothing', () => {
+    getState().addCropManually('Tomato');
+    const { undoStack } = getState();
+
+    getState().getCropByType('Tomato');
+    getState().getGardenOverview(Date.now());
+    getState().syncDailyReset(Date.now());
+
+    expect(getState().undoStack).toBe(undoStack);
+  });
+
+  it('clears the history when the daily reset passes', () => {
+    getState().addCropManually('Tomato');
+
+    getState().syncDailyReset(Date.now() + HOUR);
+
+    expect(getState().undoStack).toEqual([]);
+    expect(getState().redoStack).toEqual([]);
+  });
+
+  it('records a layout load from the state it replaced', async () => {
+    const saveResult = await layoutService.saveLayout(SAVE_CODE, 'Tomatoes');
+
+    const loading = getState().loadLayoutById(saveResult.data!.metadata.id);
+    // Made while the layout is loading, so undoing the load must keep it
+    getState().addCropManually('Potato');
+    await loading;
+
+    expect(getState().undoStack.map(entry => entry.action)).toEqual(['addCropManually', 'loadLayoutById']);
+    getState().undo();
+    expect(getState().trackedCrops.map(crop => crop.cropType)).toEqual(['Potato']);
+    expect(getState().activeLayoutId).toBeNull();
+  });
+});
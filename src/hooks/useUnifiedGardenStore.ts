@@ -1,94 +1,514 @@
 import { create } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
+import { shallow } from 'zustand/shallow';
 import {
   UnifiedGardenStore,
+  UnifiedGardenStoreActions,
   TrackedCrop,
   PersistedGardenData,
+  GardenProfile,
+  GardenOverview,
   LegacyData,
   MigrationResult,
+  SchemaMigrationResult,
+  HistoryEntry,
+  PersistedHistory,
+  WateringRecord,
   DailyWateringState,
   createTrackedCrop,
+  createGardenProfile,
   groupPlantsByType,
+  applyPlantWatering,
+  setAllPlantsWatered,
   validatePersistedData,
+  validateWateringRecord,
   STORAGE_KEYS,
   DEFAULT_DAILY_WATERING_STATE,
-  CURRENT_VERSION
+  CURRENT_VERSION,
+  MAX_MISSED_RESET_DAYS,
+  DEFAULT_GARDEN_NAME,
+  MAX_HISTORY_ENTRIES,
+  LayoutSwitchMode
 } from '../types/unified';
 import { Plant } from '../types';
+import { ParsedGardenData } from '../types/layout';
 import { MigrationService } from '../services/migrationService';
+import { SchemaMigrationService } from '../services/schemaMigrationService';
 import { layoutService } from '../services/layoutService';
+import { extractPlants, parseGridData } from '../services/plannerService';
+import { getPaliaTimeSinceReset } from '../services/paliaTime';
+import {
+  StorageAdapter,
+  LocalStorageAdapter,
+  createDefaultStorageAdapter,
+  moveStorageItem,
+  resolveStorageAdapter
+} from '../services/storageAdapter';
+import { TabChange, publishTabChange, subscribeToTabChanges } from '../services/tabSync';
+import { appendWateringRecords } from '../services/wateringLog';
+
+/**
+ * Storage for the unified store
+ * The data is small and is flushed while the page is being hidden, so it stays in localStorage,
+ * whose writes finish before the page goes away.
+ */
+let unifiedStorage: StorageAdapter = new LocalStorageAdapter();
+
+/**
+ * Storage for the watering log
+ * The log keeps every recorded day and outgrows localStorage, so it goes to the largest backend.
+ */
+let wateringLogStorage: StorageAdapter = createDefaultStorageAdapter();
+
+/**
+ * Replace the storage of the store, before it is initialized (used by tests)
+ * @param storage - Storage for the store data and undo history
+ * @param logStorage - Storage for the watering log
+ */
+export const setUnifiedStorage = (storage: StorageAdapter, logStorage: StorageAdapter = storage) => {
+  unifiedStorage = storage;
+  wateringLogStorage = logStorage;
+};
+
+/**
+ * `lastSaved` of the stored data this tab last wrote or loaded
+ */
+let lastSavedAt = 0;
 
 /**
  * Persistence utilities for the unified store
  */
 const persistenceUtils = {
   /**
-   * Load persisted data from localStorage
+   * Load persisted data, upgrading older schema versions
+   * Data that cannot be upgraded or does not validate is backed up before the store starts fresh.
+   * @returns The data (null to start fresh) and the outcome of any upgrade
    */
-  loadPersistedData: (): PersistedGardenData | null => {
+  loadPersistedData: async (): Promise<{ data: PersistedGardenData | null; migration: SchemaMigrationResult | null }> => {
     try {
-      const stored = localStorage.getItem(STORAGE_KEYS.UNIFIED_GARDEN);
-      if (!stored) return null;
-
-      const parsed = JSON.parse(stored);
+      const stored = await unifiedStorage.getItem(STORAGE_KEYS.UNIFIED_GARDEN);
+      if (!stored) return { data: null, migration: null };
+
+      const { data: parsed, result } = await SchemaMigrationService.upgradeStoredData(stored, unifiedStorage);
+      if (!parsed) {
+        console.warn(result?.newerVersion
+          ? 'Persisted data is from a newer version, running without saving:'
+          : 'Could not upgrade persisted data, starting fresh:', result?.errors);
+        return { data: null, migration: result };
+      }
       
       // Convert date strings back to Date objects
-      if (parsed.trackedCrops) {
-        parsed.trackedCrops = parsed.trackedCrops.map((crop: any) => ({
-          ...crop,
-          addedAt: new Date(crop.addedAt),
-          lastWateredAt: crop.lastWateredAt ? new Date(crop.lastWateredAt) : undefined
+      if (Array.isArray(parsed.trackedCrops)) {
+        parsed.trackedCrops = persistenceUtils.reviveTrackedCrops(parsed.trackedCrops);
+      }
+      if (Array.isArray(parsed.gardens)) {
+        parsed.gardens = parsed.gardens.map((garden: any) => ({
+          ...garden,
+          trackedCrops: Array.isArray(garden.trackedCrops)
+            ? persistenceUtils.reviveTrackedCrops(garden.trackedCrops)
+            : garden.trackedCrops
         }));
       }
 
       if (validatePersistedData(parsed)) {
-        return parsed;
-      } else {
-        console.warn('Invalid persisted data format, starting fresh');
-        return null;
+        return { data: parsed, migration: result };
       }
+
+      console.warn('Invalid persisted data format, starting fresh');
+      return {
+        data: null,
+        migration: {
+          success: false,
+          fromVersion: result ? result.fromVersion : parsed.version,
+          toVersion: CURRENT_VERSION,
+          appliedMigrations: result ? result.appliedMigrations : [],
+          errors: [...(result ? result.errors : []), `Saved data does not match the version ${CURRENT_VERSION} schema`],
+          backupKey: result ? result.backupKey : await SchemaMigrationService.backup(stored, unifiedStorage, parsed.version ?? null)
+        }
+      };
     } catch (error) {
       console.error('Error loading persisted data:', error);
-      return null;
+      return { data: null, migration: null };
     }
   },
 
   /**
-   * Save data to localStorage
+   * Restore tracked crops from their JSON form
+   */
+  reviveTrackedCrops: (crops: any[]): TrackedCrop[] =>
+    crops.map((crop: any) => ({
+      ...crop,
+      addedAt: new Date(crop.addedAt),
+      lastWateredAt: crop.lastWateredAt ? new Date(crop.lastWateredAt) : undefined
+    })),
+
+  /**
+   * Save data to storage
    */
-  savePersistedData: (data: Omit<PersistedGardenData, 'lastSaved'>): void => {
+  savePersistedData: async (data: Omit<PersistedGardenData, 'lastSaved'>): Promise<void> => {
     try {
       const toSave: PersistedGardenData = {
         ...data,
         lastSaved: Date.now()
       };
       
-      localStorage.setItem(STORAGE_KEYS.UNIFIED_GARDEN, JSON.stringify(toSave));
+      await unifiedStorage.setItem(STORAGE_KEYS.UNIFIED_GARDEN, JSON.stringify(toSave));
+      lastSavedAt = toSave.lastSaved;
+      publishTabChange(STORAGE_KEYS.UNIFIED_GARDEN, toSave.lastSaved);
     } catch (error) {
       console.error('Error saving persisted data:', error);
     }
   },
 
+  /**
+   * Load the undo/redo history if it belongs to the current watering day
+   * Entries whose data no longer matches the current schema are dropped.
+   */
+  loadHistory: async (dailyWateringState: DailyWateringState): Promise<Pick<PersistedHistory, 'undoStack' | 'redoStack'>> => {
+    const empty = { undoStack: [], redoStack: [] };
+    try {
+      const stored = await unifiedStorage.getItem(STORAGE_KEYS.UNIFIED_HISTORY);
+      if (!stored) return empty;
+
+      const history = JSON.parse(stored);
+      if (history?.wateringDay !== getWateringDay(Date.now(), dailyWateringState)) {
+        return empty;
+      }
+
+      const reviveEntries = (entries: any): HistoryEntry[] =>
+        (Array.isArray(entries) ? entries : [])
+          .map((entry: any) => ({
+            ...entry,
+            snapshot: {
+              ...entry?.snapshot,
+              trackedCrops: persistenceUtils.reviveTrackedCrops(entry?.snapshot?.trackedCrops ?? []),
+              gardens: (entry?.snapshot?.gardens ?? []).map((garden: any) => ({
+                ...garden,
+                trackedCrops: persistenceUtils.reviveTrackedCrops(garden?.trackedCrops ?? [])
+              }))
+            }
+          }))
+          .filter((entry: HistoryEntry) =>
+            typeof entry.action === 'string' &&
+            typeof entry.at === 'number' &&
+            validatePersistedData({ ...entry.snapshot, lastSaved: entry.at })
+          );
+
+      return {
+        undoStack: reviveEntries(history.undoStack),
+        redoStack: reviveEntries(history.redoStack)
+      };
+    } catch (error) {
+      console.error('Error loading undo history:', error);
+      return empty;
+    }
+  },
+
+  /**
+   * Save the undo/redo history for the current watering day
+   */
+  saveHistory: async (state: UnifiedGardenStore): Promise<void> => {
+    try {
+      const history: PersistedHistory = {
+        wateringDay: getWateringDay(Date.now(), state.dailyWateringState),
+        undoStack: state.undoStack,
+        redoStack: state.redoStack
+      };
+
+      await unifiedStorage.setItem(STORAGE_KEYS.UNIFIED_HISTORY, JSON.stringify(history));
+      publishTabChange(STORAGE_KEYS.UNIFIED_HISTORY, Date.now());
+    } catch (error) {
+      console.error('Error saving undo history:', error);
+    }
+  },
+
+  /**
+   * Load the watering log, dropping malformed records
+   */
+  loadWateringLog: async (): Promise<WateringRecord[]> => {
+    try {
+      // Logs saved before the log had its own storage are still in localStorage
+      const backend = await resolveStorageAdapter(wateringLogStorage);
+      if (!(backend instanceof LocalStorageAdapter)) {
+        await moveStorageItem(STORAGE_KEYS.WATERING_LOG, unifiedStorage, backend);
+      }
+
+      const stored = await wateringLogStorage.getItem(STORAGE_KEYS.WATERING_LOG);
+      if (!stored) return [];
+
+      const log = JSON.parse(stored);
+      return Array.isArray(log) ? log.filter(validateWateringRecord) : [];
+    } catch (error) {
+      console.error('Error loading watering log:', error);
+      return [];
+    }
+  },
+
+  /**
+   * Save the watering log, keeping records other tabs wrote since this tab loaded it
+   */
+  saveWateringLog: async (log: WateringRecord[]): Promise<void> => {
+    try {
+      const stored = await persistenceUtils.loadWateringLog();
+      await wateringLogStorage.setItem(STORAGE_KEYS.WATERING_LOG, JSON.stringify(appendWateringRecords(stored, log)));
+      publishTabChange(STORAGE_KEYS.WATERING_LOG, Date.now());
+    } catch (error) {
+      console.error('Error saving watering log:', error);
+    }
+  },
+
   /**
    * Create initial persisted data structure
    */
-  createInitialData: (migratedFromLegacy = false): PersistedGardenData => ({
-    version: CURRENT_VERSION,
-    trackedCrops: [],
-    dailyWateringState: { ...DEFAULT_DAILY_WATERING_STATE },
-    migratedFromLegacy,
-    lastSaved: Date.now()
-  })
+  createInitialData: (migratedFromLegacy = false): PersistedGardenData => {
+    const defaultGarden = createGardenProfile(DEFAULT_GARDEN_NAME);
+    return {
+      version: CURRENT_VERSION,
+      trackedCrops: [],
+      dailyWateringState: { ...DEFAULT_DAILY_WATERING_STATE },
+      migratedFromLegacy,
+      activeLayoutId: null,
+      gardens: [defaultGarden],
+      activeGardenId: defaultGarden.id,
+      lastSaved: Date.now()
+    };
+  }
+};
+
+/**
+ * Drop the plant instances of a layout from tracked crops
+ * The crops stay tracked with their crop-level watering state and plant count.
+ */
+const detachLayoutPlants = (trackedCrops: TrackedCrop[]): TrackedCrop[] =>
+  trackedCrops.map(crop => crop.plantInstances.length > 0 ? { ...crop, plantInstances: [] } : crop);
+
+/**
+ * Track the plants of a layout, one plant instance per cropId
+ * Reloading the active layout keeps each plant's watering state. Switching to another layout
+ * starts its plants watered only if their crop type is already watered today.
+ * @param trackedCrops - Currently tracked crops
+ * @param gardenData - Parsed layout
+ * @param isSameLayout - Whether the layout is already the active layout
+ * @param mode - What to do with tracked crops the layout does not contain
+ * @returns Tracked crops with the layout's plants imported
+ */
+const importLayoutPlants = (
+  trackedCrops: TrackedCrop[],
+  gardenData: ParsedGardenData,
+  isSameLayout: boolean,
+  mode: LayoutSwitchMode
+): TrackedCrop[] => {
+  const plantGroups = groupPlantsByType(extractPlants(gardenData.tiles));
+  const baseCrops = isSameLayout ? trackedCrops : detachLayoutPlants(trackedCrops);
+  const updatedCrops = mode === 'replace'
+    ? baseCrops.filter(crop => plantGroups[crop.cropType] !== undefined)
+    : [...baseCrops];
+
+  for (const [cropType, layoutPlants] of Object.entries(plantGroups)) {
+    const existingCropIndex = updatedCrops.findIndex(crop => crop.cropType === cropType);
+
+    if (existingCropIndex >= 0) {
+      const existingCrop = updatedCrops[existingCropIndex];
+      const plantInstances = layoutPlants.map(plant => {
+        const existingPlant = existingCrop.plantInstances.find(instance => instance.id === plant.id);
+        return { ...plant, needsWater: existingPlant ? existingPlant.needsWater : !existingCrop.isWatered };
+      });
+
+      updatedCrops[existingCropIndex] = {
+        ...applyPlantWatering(existingCrop, plantInstances),
+        source: 'import',
+        totalCount: plantInstances.length,
+        addedAt: new Date()
+      };
+    } else {
+      updatedCrops.push(createTrackedCrop(cropType, 'import', layoutPlants));
+    }
+  }
+
+  return updatedCrops;
+};
+
+/**
+ * Copy the tracker's current crops, watering state and layout into the active garden's profile
+ */
+const storeActiveGarden = (
+  garden: GardenProfile,
+  state: Pick<PersistedGardenData, 'trackedCrops' | 'dailyWateringState'> & { activeLayoutId: string | null }
+): GardenProfile => ({
+  ...garden,
+  trackedCrops: state.trackedCrops,
+  dailyWateringState: state.dailyWateringState,
+  activeLayoutId: state.activeLayoutId
+});
+
+/**
+ * Apply the daily reset to one garden's crops and log how the days since its last reset went
+ * Each crop gets a record of the day that ended, stamped with when it was watered. Every reset day
+ * strictly between the last reset and this one passed while the app was closed and is logged as
+ * missed.
+ * @param gardenId - Garden the crops belong to (nothing is logged without one)
+ * @param garden - The garden's tracked crops and watering state
+ * @param currentDay - Weekly label of the reset day
+ * @param paliaDay - Absolute reset day (unknown for data saved before it was tracked)
+ * @returns The reset crops and watering state, and the records to add to the watering log
+ */
+const applyDailyReset = (
+  gardenId: string | null,
+  garden: Pick<PersistedGardenData, 'trackedCrops' | 'dailyWateringState'>,
+  currentDay: string,
+  paliaDay?: number
+): Pick<PersistedGardenData, 'trackedCrops' | 'dailyWateringState'> & { records: WateringRecord[] } => {
+  const { lastResetPaliaDay, missedResetDays = [] } = garden.dailyWateringState;
+
+  const newlyMissed: number[] = [];
+  if (paliaDay !== undefined && lastResetPaliaDay !== undefined) {
+    const firstMissed = Math.max(lastResetPaliaDay + 1, paliaDay - MAX_MISSED_RESET_DAYS);
+    for (let day = firstMissed; day < paliaDay; day++) {
+      newlyMissed.push(day);
+    }
+  }
+
+  const records: WateringRecord[] = [];
+  if (paliaDay !== undefined && lastResetPaliaDay !== undefined && paliaDay > lastResetPaliaDay && gardenId) {
+    const recordedAt = Date.now();
+    for (const crop of garden.trackedCrops) {
+      records.push({
+        gardenId,
+        cropType: crop.cropType,
+        paliaDay: lastResetPaliaDay,
+        watered: crop.isWatered,
+        recordedAt: crop.isWatered && crop.lastWateredAt ? crop.lastWateredAt.getTime() : recordedAt
+      });
+      for (const day of newlyMissed) {
+        records.push({ gardenId, cropType: crop.cropType, paliaDay: day, watered: false, recordedAt });
+      }
+    }
+  }
+
+  return {
+    trackedCrops: garden.trackedCrops.map(crop => ({
+      ...crop,
+      plantInstances: setAllPlantsWatered(crop.plantInstances, false),
+      isWatered: false
+    })),
+    dailyWateringState: {
+      ...garden.dailyWateringState,
+      lastResetDay: currentDay,
+      lastResetPaliaDay: paliaDay ?? lastResetPaliaDay,
+      missedResetDays: [...missedResetDays, ...newlyMissed].slice(-MAX_MISSED_RESET_DAYS)
+    },
+    records
+  };
+};
+
+/**
+ * Palia day counted from the daily reset, so it changes when watering resets
+ */
+const getWateringDay = (timestamp: number, dailyWateringState: DailyWateringState): number =>
+  getPaliaTimeSinceReset(timestamp, dailyWateringState.resetTime).paliaDay;
+
+/**
+ * Store functions the undo history does not wrap
+ * Getters change nothing, undo and redo manage the history, the daily reset clears it, and the
+ * async layout actions record their change themselves when they commit it.
+ */
+const UNRECORDED_ACTIONS: (keyof UnifiedGardenStoreActions)[] = [
+  'getCropByType',
+  'getCropsBySource',
+  'getGardenOverview',
+  'undo',
+  'redo',
+  'syncDailyReset',
+  'saveAndLoadLayout',
+  'loadLayoutById'
+];
+
+/**
+ * Add an undo entry for an action if it changed persisted data
+ * @param before - Persisted data just before the action changed it
+ */
+const recordHistory = (
+  set: (partial: Partial<UnifiedGardenStore>) => void,
+  get: () => UnifiedGardenStore,
+  action: keyof UnifiedGardenStoreActions,
+  before: Omit<PersistedGardenData, 'lastSaved'>
+) => {
+  if (shallow(before, selectPersistedData(get()))) {
+    return;
+  }
+
+  const entry: HistoryEntry = { action, snapshot: before, at: Date.now() };
+  set({
+    undoStack: [...get().undoStack, entry].slice(-MAX_HISTORY_ENTRIES),
+    redoStack: []
+  });
+};
+
+/**
+ * Record every action that changes persisted data in the undo history
+ * Actions called by other actions are recorded as part of the outermost one.
+ */
+const withUndoHistory = (
+  store: UnifiedGardenStore,
+  set: (partial: Partial<UnifiedGardenStore>) => void,
+  get: () => UnifiedGardenStore
+): UnifiedGardenStore => {
+  let depth = 0;
+
+  const record = (action: keyof UnifiedGardenStoreActions, before: Omit<PersistedGardenData, 'lastSaved'>) =>
+    recordHistory(set, get, action, before);
+
+  /**
+   * Wrap one action so the change it makes is recorded
+   */
+  const wrapAction = <F extends (...args: never[]) => unknown>(key: keyof UnifiedGardenStoreActions, action: F): F => {
+    const wrappedAction = (...args: Parameters<F>): unknown => {
+      if (depth > 0) {
+        return action(...args);
+      }
+
+      const before = selectPersistedData(get());
+      depth++;
+      let result: unknown;
+      try {
+        result = action(...args);
+      } finally {
+        depth--;
+      }
+
+      record(key, before);
+      return result;
+    };
+    return wrappedAction as F;
+  };
+
+  const wrappedActions = {} as { [K in keyof UnifiedGardenStoreActions]: UnifiedGardenStoreActions[K] };
+  const wrapInto = <K extends keyof UnifiedGardenStoreActions>(key: K) => {
+    wrappedActions[key] = UNRECORDED_ACTIONS.includes(key) ? store[key] : wrapAction(key, store[key]);
+  };
+  (Object.keys(store) as (keyof UnifiedGardenStore)[])
+    .filter((key): key is keyof UnifiedGardenStoreActions => typeof store[key] === 'function')
+    .forEach(wrapInto);
+
+  return { ...store, ...wrappedActions };
 };
 
 /**
  * Create the unified garden store
  */
 export const useUnifiedGardenStore = create<UnifiedGardenStore>()(
-  subscribeWithSelector((set, get) => ({
+  subscribeWithSelector((set, get) => withUndoHistory({
     // State
     trackedCrops: [],
     dailyWateringState: { ...DEFAULT_DAILY_WATERING_STATE },
+    activeLayoutId: null,
+    gardens: [],
+    activeGardenId: null,
+    migratedFromLegacy: false,
+    schemaMigration: null,
+    undoStack: [],
+    redoStack: [],
+    wateringLog: [],
     isInitialized: false,
     isLoading: false,
     lastError: null,
@@ -105,14 +525,6 @@ export const useUnifiedGardenStore = create<UnifiedGardenStore>()(
         const newCrop = createTrackedCrop(cropType, 'manual');
         const updatedCrops = [...state.trackedCrops, newCrop];
 
-        // Persist changes
-        persistenceUtils.savePersistedData({
-          version: CURRENT_VERSION,
-          trackedCrops: updatedCrops,
-          dailyWateringState: state.dailyWateringState,
-          migratedFromLegacy: false
-        });
-
         return {
           trackedCrops: updatedCrops,
           lastError: null
@@ -124,14 +536,6 @@ export const useUnifiedGardenStore = create<UnifiedGardenStore>()(
       set((state) => {
         const updatedCrops = state.trackedCrops.filter(crop => crop.cropType !== cropType);
 
-        // Persist changes
-        persistenceUtils.savePersistedData({
-          version: CURRENT_VERSION,
-          trackedCrops: updatedCrops,
-          dailyWateringState: state.dailyWateringState,
-          migratedFromLegacy: false
-        });
-
         return {
           trackedCrops: updatedCrops,
           lastError: null
@@ -165,14 +569,6 @@ export const useUnifiedGardenStore = create<UnifiedGardenStore>()(
           }
         }
 
-        // Persist changes
-        persistenceUtils.savePersistedData({
-          version: CURRENT_VERSION,
-          trackedCrops: updatedCrops,
-          dailyWateringState: state.dailyWateringState,
-          migratedFromLegacy: false
-        });
-
         return {
           trackedCrops: updatedCrops,
           lastError: null
@@ -187,19 +583,58 @@ export const useUnifiedGardenStore = create<UnifiedGardenStore>()(
             const newWateredState = !crop.isWatered;
             return {
               ...crop,
+              plantInstances: setAllPlantsWatered(crop.plantInstances, newWateredState),
               isWatered: newWateredState,
-              lastWateredAt: newWateredState ? new Date() : crop.lastWateredAt
+              lastWateredAt: newWateredState ? new Date() : crop.lastWateredAt,
+              // Today's watering counts towards growth until it is undone
+              daysWatered: Math.max(0, crop.daysWatered + (newWateredState ? 1 : -1))
             };
           }
           return crop;
         });
 
-        // Persist changes
-        persistenceUtils.savePersistedData({
-          version: CURRENT_VERSION,
+        return {
           trackedCrops: updatedCrops,
-          dailyWateringState: state.dailyWateringState,
-          migratedFromLegacy: false
+          lastError: null
+        };
+      });
+    },
+
+    togglePlantWatered: (plantId: string) => {
+      set((state) => {
+        const cropIndex = state.trackedCrops.findIndex(crop =>
+          crop.plantInstances.some(plant => plant.id === plantId)
+        );
+        if (cropIndex < 0) {
+          return { lastError: `Plant ${plantId} is not being tracked` };
+        }
+
+        const crop = state.trackedCrops[cropIndex];
+        const plantInstances = crop.plantInstances.map(plant =>
+          plant.id === plantId ? { ...plant, needsWater: !plant.needsWater } : plant
+        );
+        const updatedCrops = [...state.trackedCrops];
+        updatedCrops[cropIndex] = applyPlantWatering(crop, plantInstances);
+
+        return {
+          trackedCrops: updatedCrops,
+          lastError: null
+        };
+      });
+    },
+
+    setCropPlantedDay: (cropType: string, paliaDay: number) => {
+      set((state) => {
+        const updatedCrops = state.trackedCrops.map(crop => {
+          if (crop.cropType === cropType) {
+            return {
+              ...crop,
+              plantedOnDay: paliaDay,
+              // Growth restarts from the new planting, keeping today's watering
+              daysWatered: crop.isWatered ? 1 : 0
+            };
+          }
+          return crop;
         });
 
         return {
@@ -214,18 +649,12 @@ export const useUnifiedGardenStore = create<UnifiedGardenStore>()(
         const now = new Date();
         const updatedCrops = state.trackedCrops.map(crop => ({
           ...crop,
+          plantInstances: setAllPlantsWatered(crop.plantInstances, true),
           isWatered: true,
-          lastWateredAt: now
+          lastWateredAt: now,
+          daysWatered: crop.isWatered ? crop.daysWatered : crop.daysWatered + 1
         }));
 
-        // Persist changes
-        persistenceUtils.savePersistedData({
-          version: CURRENT_VERSION,
-          trackedCrops: updatedCrops,
-          dailyWateringState: state.dailyWateringState,
-          migratedFromLegacy: false
-        });
-
         return {
           trackedCrops: updatedCrops,
           lastError: null
@@ -237,17 +666,11 @@ export const useUnifiedGardenStore = create<UnifiedGardenStore>()(
       set((state) => {
         const updatedCrops = state.trackedCrops.map(crop => ({
           ...crop,
-          isWatered: false
+          plantInstances: setAllPlantsWatered(crop.plantInstances, false),
+          isWatered: false,
+          daysWatered: crop.isWatered ? Math.max(0, crop.daysWatered - 1) : crop.daysWatered
         }));
 
-        // Persist changes
-        persistenceUtils.savePersistedData({
-          version: CURRENT_VERSION,
-          trackedCrops: updatedCrops,
-          dailyWateringState: state.dailyWateringState,
-          migratedFromLegacy: false
-        });
-
         return {
           trackedCrops: updatedCrops,
           lastError: null
@@ -255,29 +678,99 @@ export const useUnifiedGardenStore = create<UnifiedGardenStore>()(
       });
     },
 
-    resetDailyWatering: (currentDay: string) => {
+    resetDailyWatering: (currentDay: string, paliaDay?: number) => {
       set((state) => {
-        const updatedCrops = state.trackedCrops.map(crop => ({
-          ...crop,
-          isWatered: false
+        const { trackedCrops, dailyWateringState, records } = applyDailyReset(
+          state.activeGardenId,
+          state,
+          currentDay,
+          paliaDay
+        );
+
+        return {
+          trackedCrops,
+          dailyWateringState,
+          wateringLog: appendWateringRecords(state.wateringLog, records),
+          lastError: null
+        };
+      });
+    },
+
+    syncDailyReset: (timestamp: number) => {
+      // Undoing past a daily reset would bring back the previous day's watering
+      const clearHistory = () => set({ undoStack: [], redoStack: [] });
+
+      // Gardens that are not shown reset too, so their days are logged without switching to them
+      const { gardens, activeGardenId } = get();
+      const caughtUpRecords: WateringRecord[] = [];
+      let gardensCaughtUp = false;
+      const updatedGardens = gardens.map(garden => {
+        const { lastResetPaliaDay: gardenLastReset, resetTime: gardenResetTime } = garden.dailyWateringState;
+        const gardenResetData = getPaliaTimeSinceReset(timestamp, gardenResetTime);
+        // Gardens saved before absolute reset days were tracked catch up once they are shown
+        if (garden.id === activeGardenId || gardenLastReset === undefined || gardenResetData.paliaDay <= gardenLastReset) {
+          return garden;
+        }
+
+        const { records, ...resetGarden } = applyDailyReset(garden.id, garden, gardenResetData.dayText, gardenResetData.paliaDay);
+        caughtUpRecords.push(...records);
+        gardensCaughtUp = true;
+        return { ...garden, ...resetGarden };
+      });
+      if (gardensCaughtUp) {
+        set((state) => ({
+          gardens: updatedGardens,
+          wateringLog: appendWateringRecords(state.wateringLog, caughtUpRecords)
         }));
+        clearHistory();
+      }
+
+      const { dailyWateringState } = get();
+      const { resetTime, lastResetDay, lastResetPaliaDay } = dailyWateringState;
+
+      // Palia day in which the configured reset hour last passed
+      const resetTimeData = getPaliaTimeSinceReset(timestamp, resetTime);
+
+      if (lastResetPaliaDay === undefined) {
+        // Data saved before absolute reset days were tracked only has the weekly label.
+        // If it matches, today's reset already happened: record its day without resetting again.
+        if (resetTimeData.dayText === lastResetDay) {
+          const updatedWateringState: DailyWateringState = {
+            ...dailyWateringState,
+            lastResetPaliaDay: resetTimeData.paliaDay
+          };
+
+          set({ dailyWateringState: updatedWateringState });
+          clearHistory();
+          return;
+        }
+      } else if (resetTimeData.paliaDay <= lastResetPaliaDay) {
+        return;
+      }
+
+      get().resetDailyWatering(resetTimeData.dayText, resetTimeData.paliaDay);
+      clearHistory();
+    },
+
+    setResetHour: (hour: number) => {
+      set((state) => {
+        if (!Number.isInteger(hour) || hour < 0 || hour > 23) {
+          return { lastError: `Reset hour must be a whole hour from 0 to 23, got ${hour}` };
+        }
 
         const updatedWateringState: DailyWateringState = {
           ...state.dailyWateringState,
-          lastResetDay: currentDay
+          resetTime: hour
         };
-
-        // Persist changes
-        persistenceUtils.savePersistedData({
-          version: CURRENT_VERSION,
-          trackedCrops: updatedCrops,
-          dailyWateringState: updatedWateringState,
-          migratedFromLegacy: false
-        });
+        // Every garden resets at the same in-game hour
+        const updatedGardens = state.gardens.map(garden => ({
+          ...garden,
+          dailyWateringState: { ...garden.dailyWateringState, resetTime: hour }
+        }));
 
         return {
-          trackedCrops: updatedCrops,
           dailyWateringState: updatedWateringState,
+          gardens: updatedGardens,
           lastError: null
         };
       });
@@ -299,6 +792,7 @@ export const useUnifiedGardenStore = create<UnifiedGardenStore>()(
               trackedCrop.isWatered = legacyData.cropWateringState.watered[cropType];
               if (trackedCrop.isWatered) {
                 trackedCrop.lastWateredAt = new Date();
+                trackedCrop.daysWatered = 1;
               }
             }
             
@@ -307,20 +801,13 @@ export const useUnifiedGardenStore = create<UnifiedGardenStore>()(
 
           const updatedWateringState: DailyWateringState = {
             lastResetDay: legacyData.cropWateringState?.lastResetDay || '',
-            resetTime: 6
+            resetTime: state.dailyWateringState.resetTime
           };
 
-          // Persist migrated data
-          persistenceUtils.savePersistedData({
-            version: CURRENT_VERSION,
-            trackedCrops: migratedCrops,
-            dailyWateringState: updatedWateringState,
-            migratedFromLegacy: true
-          });
-
           return {
             trackedCrops: migratedCrops,
             dailyWateringState: updatedWateringState,
+            migratedFromLegacy: true,
             lastError: null
           };
         });
@@ -330,19 +817,9 @@ export const useUnifiedGardenStore = create<UnifiedGardenStore>()(
     },
 
     clearAllCrops: () => {
-      set((state) => {
-        // Persist changes
-        persistenceUtils.savePersistedData({
-          version: CURRENT_VERSION,
-          trackedCrops: [],
-          dailyWateringState: state.dailyWateringState,
-          migratedFromLegacy: false
-        });
-
-        return {
-          trackedCrops: [],
-          lastError: null
-        };
+      set({
+        trackedCrops: [],
+        lastError: null
       });
     },
 
@@ -367,22 +844,147 @@ export const useUnifiedGardenStore = create<UnifiedGardenStore>()(
           return crop;
         });
 
-        // Persist changes
-        persistenceUtils.savePersistedData({
-          version: CURRENT_VERSION,
+        return {
           trackedCrops: updatedCrops,
-          dailyWateringState: state.dailyWateringState,
-          migratedFromLegacy: false
-        });
+          lastError: null
+        };
+      });
+    },
+
+    detachLayout: () => {
+      set((state) => {
+        if (!state.activeLayoutId) {
+          return {};
+        }
+
+        const updatedCrops = detachLayoutPlants(state.trackedCrops);
 
         return {
           trackedCrops: updatedCrops,
+          activeLayoutId: null,
+          lastError: null
+        };
+      });
+    },
+
+    createGarden: (name: string) => {
+      set((state) => {
+        const trimmedName = name.trim();
+        if (!trimmedName) {
+          return { lastError: 'Garden name must not be empty' };
+        }
+        if (state.gardens.some(garden => garden.name === trimmedName)) {
+          return { lastError: `A garden named ${trimmedName} already exists` };
+        }
+
+        // Every garden resets at the same in-game hour
+        const newGarden = createGardenProfile(trimmedName, {
+          dailyWateringState: { ...DEFAULT_DAILY_WATERING_STATE, resetTime: state.dailyWateringState.resetTime }
+        });
+        const updatedGardens = [...state.gardens, newGarden];
+
+        return {
+          gardens: updatedGardens,
+          lastError: null
+        };
+      });
+    },
+
+    renameGarden: (gardenId: string, name: string) => {
+      set((state) => {
+        const trimmedName = name.trim();
+        if (!trimmedName) {
+          return { lastError: 'Garden name must not be empty' };
+        }
+        if (!state.gardens.some(garden => garden.id === gardenId)) {
+          return { lastError: `Garden ${gardenId} not found` };
+        }
+
+        const updatedGardens = state.gardens.map(garden =>
+          garden.id === gardenId ? { ...garden, name: trimmedName } : garden
+        );
+
+        return {
+          gardens: updatedGardens,
+          lastError: null
+        };
+      });
+    },
+
+    deleteGarden: (gardenId: string) => {
+      set((state) => {
+        if (gardenId === state.activeGardenId) {
+          return { lastError: 'Switch to another garden before deleting this one' };
+        }
+        if (!state.gardens.some(garden => garden.id === gardenId)) {
+          return { lastError: `Garden ${gardenId} not found` };
+        }
+
+        const updatedGardens = state.gardens.filter(garden => garden.id !== gardenId);
+
+        return {
+          gardens: updatedGardens,
           lastError: null
         };
       });
     },
 
-    saveAndLoadLayout: async (saveCode: string, name: string, options: { notes?: string; tags?: string[] } = {}) => {
+    switchGarden: (gardenId: string) => {
+      set((state) => {
+        if (gardenId === state.activeGardenId) {
+          return {};
+        }
+
+        const targetGarden = state.gardens.find(garden => garden.id === gardenId);
+        if (!targetGarden) {
+          return { lastError: `Garden ${gardenId} not found` };
+        }
+
+        // Store the garden being left, then show the target garden
+        const updatedGardens = state.gardens.map(garden =>
+          garden.id === state.activeGardenId ? storeActiveGarden(garden, state) : garden
+        );
+
+        return {
+          trackedCrops: targetGarden.trackedCrops,
+          dailyWateringState: targetGarden.dailyWateringState,
+          activeLayoutId: targetGarden.activeLayoutId,
+          gardens: updatedGardens,
+          activeGardenId: targetGarden.id,
+          lastError: null
+        };
+      });
+    },
+
+    getGardenOverview: (timestamp: number): GardenOverview[] => {
+      const state = get();
+
+      return state.gardens.map(garden => {
+        const isActive = garden.id === state.activeGardenId;
+        const { trackedCrops, dailyWateringState } = isActive ? storeActiveGarden(garden, state) : garden;
+
+        // A garden whose daily reset has not been applied yet needs all of its crops watered again
+        const currentResetDay = getPaliaTimeSinceReset(timestamp, dailyWateringState.resetTime).paliaDay;
+        const isResetPending = dailyWateringState.lastResetPaliaDay === undefined
+          || dailyWateringState.lastResetPaliaDay < currentResetDay;
+        const wateredCropCount = isResetPending ? 0 : trackedCrops.filter(crop => crop.isWatered).length;
+
+        return {
+          id: garden.id,
+          name: garden.name,
+          isActive,
+          trackedCropCount: trackedCrops.length,
+          wateredCropCount,
+          needsWater: wateredCropCount < trackedCrops.length
+        };
+      });
+    },
+
+    saveAndLoadLayout: async (
+      saveCode: string,
+      name: string,
+      options: { notes?: string; tags?: string[]; mode?: LayoutSwitchMode } = {}
+    ) => {
       try {
         set((state) => ({ ...state, isLoading: true, lastError: null }));
 
@@ -402,59 +1004,20 @@ export const useUnifiedGardenStore = create<UnifiedGardenStore>()(
           return { success: false, error: saveResult.error?.message || 'Failed to save layout' };
         }
 
-        // Import the plants from the saved layout
+        // Import the plants of the saved layout and make it the active layout
         const savedLayout = saveResult.data!;
-        const plants: Plant[] = [];
-        
-        // Convert garden data to plants
-        for (const [cropType, summary] of Object.entries(savedLayout.gardenData.cropSummary.cropBreakdown)) {
-          for (let i = 0; i < summary.total; i++) {
-            plants.push({
-              id: `${cropType}-${i}`,
-              name: cropType,
-              needsWater: false
-            });
-          }
-        }
-
-        // Update tracked crops using existing importPlantsFromGarden logic
-        const plantGroups = groupPlantsByType(plants);
-        const updatedCrops = [...get().trackedCrops];
-
-        // Process each crop type
-        for (const [cropType, plantInstances] of Object.entries(plantGroups)) {
-          const existingCropIndex = updatedCrops.findIndex(crop => crop.cropType === cropType);
-          
-          if (existingCropIndex >= 0) {
-            // Update existing crop with new plant instances
-            updatedCrops[existingCropIndex] = {
-              ...updatedCrops[existingCropIndex],
-              source: 'import',
-              plantInstances,
-              totalCount: plantInstances.length,
-              addedAt: new Date()
-            };
-          } else {
-            // Create new tracked crop
-            const newCrop = createTrackedCrop(cropType, 'import', plantInstances);
-            updatedCrops.push(newCrop);
-          }
-        }
-
-        // Persist changes
-        persistenceUtils.savePersistedData({
-          version: CURRENT_VERSION,
-          trackedCrops: updatedCrops,
-          dailyWateringState: get().dailyWateringState,
-          migratedFromLegacy: false
-        });
+        const before = selectPersistedData(get());
+        const updatedCrops = importLayoutPlants(get().trackedCrops, savedLayout.gardenData, false, options.mode ?? 'merge');
 
         set((state) => ({
           ...state,
           trackedCrops: updatedCrops,
+          activeLayoutId: savedLayout.metadata.id,
           isLoading: false,
           lastError: null
         }));
+        // Recorded from the state it replaced, so actions made while saving stay out of the entry
+        recordHistory(set, get, 'saveAndLoadLayout', before);
 
         return { success: true };
 
@@ -469,12 +1032,12 @@ export const useUnifiedGardenStore = create<UnifiedGardenStore>()(
       }
     },
 
-    loadLayoutById: async (layoutId: string) => {
+    loadLayoutById: async (layoutId: string, mode: LayoutSwitchMode = 'merge') => {
       try {
         set((state) => ({ ...state, isLoading: true, lastError: null }));
 
         // Load the layout using the layout service
-        const loadResult = layoutService.loadLayout(layoutId);
+        const loadResult = await layoutService.loadLayout(layoutId);
 
         if (!loadResult.success) {
           set((state) => ({
@@ -485,59 +1048,22 @@ export const useUnifiedGardenStore = create<UnifiedGardenStore>()(
           return { success: false, error: loadResult.error?.message || 'Failed to load layout' };
         }
 
-        // Import the plants from the loaded layout
+        // Re-parse the save code: layouts saved before plant IDs existed have no cropIds
         const savedLayout = loadResult.data!;
-        const plants: Plant[] = [];
-        
-        // Convert garden data to plants
-        for (const [cropType, summary] of Object.entries(savedLayout.gardenData.cropSummary.cropBreakdown)) {
-          for (let i = 0; i < summary.total; i++) {
-            plants.push({
-              id: `${cropType}-${i}`,
-              name: cropType,
-              needsWater: false
-            });
-          }
-        }
-
-        // Update tracked crops using existing importPlantsFromGarden logic
-        const plantGroups = groupPlantsByType(plants);
-        const updatedCrops = [...get().trackedCrops];
-
-        // Process each crop type
-        for (const [cropType, plantInstances] of Object.entries(plantGroups)) {
-          const existingCropIndex = updatedCrops.findIndex(crop => crop.cropType === cropType);
-          
-          if (existingCropIndex >= 0) {
-            // Update existing crop with new plant instances
-            updatedCrops[existingCropIndex] = {
-              ...updatedCrops[existingCropIndex],
-              source: 'import',
-              plantInstances,
-              totalCount: plantInstances.length,
-              addedAt: new Date()
-            };
-          } else {
-            // Create new tracked crop
-            const newCrop = createTrackedCrop(cropType, 'import', plantInstances);
-            updatedCrops.push(newCrop);
-          }
-        }
-
-        // Persist changes
-        persistenceUtils.savePersistedData({
-          version: CURRENT_VERSION,
-          trackedCrops: updatedCrops,
-          dailyWateringState: get().dailyWateringState,
-          migratedFromLegacy: false
-        });
+        const gardenData = await parseGridData(savedLayout.saveCode);
+        const before = selectPersistedData(get());
+        const isSameLayout = before.activeLayoutId === layoutId;
+        const updatedCrops = importLayoutPlants(before.trackedCrops, gardenData, isSameLayout, mode);
 
         set((state) => ({
           ...state,
           trackedCrops: updatedCrops,
+          activeLayoutId: layoutId,
           isLoading: false,
           lastError: null
         }));
+        // Recorded from the state it replaced, so actions made while loading stay out of the entry
+        recordHistory(set, get, 'loadLayoutById', before);
 
         return { success: true };
 
@@ -550,45 +1076,313 @@ export const useUnifiedGardenStore = create<UnifiedGardenStore>()(
         }));
         return { success: false, error: errorMessage };
       }
+    },
+
+    undo: () => {
+      const { undoStack, redoStack } = get();
+      const entry = undoStack[undoStack.length - 1];
+      if (!entry) {
+        return null;
+      }
+
+      set({
+        ...toStoreState(entry.snapshot),
+        undoStack: undoStack.slice(0, -1),
+        redoStack: [...redoStack, { ...entry, snapshot: selectPersistedData(get()) }],
+        lastError: null
+      });
+      return entry;
+    },
+
+    redo: () => {
+      const { undoStack, redoStack } = get();
+      const entry = redoStack[redoStack.length - 1];
+      if (!entry) {
+        return null;
+      }
+
+      set({
+        ...toStoreState(entry.snapshot),
+        undoStack: [...undoStack, { ...entry, snapshot: selectPersistedData(get()) }],
+        redoStack: redoStack.slice(0, -1),
+        lastError: null
+      });
+      return entry;
     }
-  }))
+  }, set, get))
 );
 
+/**
+ * Delay before store changes are written to storage, so a burst of actions causes one write
+ */
+const PERSIST_DEBOUNCE_MS = 250;
+
+/**
+ * The persisted part of the store state
+ * This is the single place that decides what is saved: add new persisted fields here.
+ */
+export const selectPersistedData = (state: UnifiedGardenStore): Omit<PersistedGardenData, 'lastSaved'> => ({
+  version: CURRENT_VERSION,
+  trackedCrops: state.trackedCrops,
+  dailyWateringState: state.dailyWateringState,
+  migratedFromLegacy: state.migratedFromLegacy,
+  activeLayoutId: state.activeLayoutId,
+  gardens: state.gardens,
+  // Persistence starts once the store is initialized, when a garden is always active
+  activeGardenId: state.activeGardenId as string
+});
+
+/**
+ * Store state restored from persisted data
+ */
+const toStoreState = (data: Omit<PersistedGardenData, 'lastSaved'>) => ({
+  trackedCrops: data.trackedCrops,
+  dailyWateringState: data.dailyWateringState,
+  activeLayoutId: data.activeLayoutId,
+  gardens: data.gardens,
+  activeGardenId: data.activeGardenId,
+  migratedFromLegacy: data.migratedFromLegacy
+});
+
+let pendingWrite: ReturnType<typeof setTimeout> | null = null;
+let unsubscribePersistence: (() => void) | null = null;
+/** Whether the pending write includes persisted data, the undo history and the watering log */
+let dataChanged = false;
+let historyChanged = false;
+let logChanged = false;
+/** When this tab last changed persisted fields that may not be written yet */
+let localChangeAt = 0;
+/** Set while data written by another tab is applied, so it is not written back */
+let applyingTabChange = false;
+
+/**
+ * Write a pending debounced save immediately
+ */
+export const flushPersistence = () => {
+  if (pendingWrite === null) {
+    return;
+  }
+
+  clearTimeout(pendingWrite);
+  pendingWrite = null;
+  const state = useUnifiedGardenStore.getState();
+  if (dataChanged) {
+    dataChanged = false;
+    persistenceUtils.savePersistedData(selectPersistedData(state));
+  }
+  if (historyChanged) {
+    historyChanged = false;
+    persistenceUtils.saveHistory(state);
+  }
+  if (logChanged) {
+    logChanged = false;
+    persistenceUtils.saveWateringLog(state.wateringLog);
+  }
+};
+
+/**
+ * Start or restart the debounce timer of the next write
+ */
+const schedulePersistence = () => {
+  if (pendingWrite !== null) {
+    clearTimeout(pendingWrite);
+  }
+  pendingWrite = setTimeout(flushPersistence, PERSIST_DEBOUNCE_MS);
+};
+
+/**
+ * Save the store whenever its persisted fields change
+ * Writes are debounced and flushed when the page is hidden, so closing the tab does not lose them.
+ */
+const startPersistence = () => {
+  if (unsubscribePersistence) {
+    return;
+  }
+
+  const unsubscribeStore = useUnifiedGardenStore.subscribe(
+    selectPersistedData,
+    () => {
+      if (applyingTabChange) {
+        return;
+      }
+      localChangeAt = Date.now();
+      dataChanged = true;
+      schedulePersistence();
+    },
+    { equalityFn: shallow }
+  );
+  const unsubscribeHistory = useUnifiedGardenStore.subscribe(
+    state => [state.undoStack, state.redoStack],
+    () => {
+      if (applyingTabChange) {
+        return;
+      }
+      historyChanged = true;
+      schedulePersistence();
+    },
+    { equalityFn: shallow }
+  );
+  const unsubscribeLog = useUnifiedGardenStore.subscribe(
+    state => state.wateringLog,
+    () => {
+      if (applyingTabChange) {
+        return;
+      }
+      logChanged = true;
+      schedulePersistence();
+    }
+  );
+  const unsubscribeTabs = [
+    subscribeToTabChanges(STORAGE_KEYS.UNIFIED_GARDEN, applyTabChange),
+    subscribeToTabChanges(STORAGE_KEYS.UNIFIED_HISTORY, applyHistoryTabChange),
+    subscribeToTabChanges(STORAGE_KEYS.WATERING_LOG, applyLogTabChange)
+  ];
+  unsubscribePersistence = () => {
+    unsubscribeStore();
+    unsubscribeHistory();
+    unsubscribeLog();
+    unsubscribeTabs.forEach(unsubscribe => unsubscribe());
+  };
+  window.addEventListener('pagehide', flushPersistence);
+};
+
+/**
+ * Stop saving the store, dropping any pending write
+ */
+const stopPersistence = () => {
+  if (pendingWrite !== null) {
+    clearTimeout(pendingWrite);
+    pendingWrite = null;
+  }
+  dataChanged = false;
+  historyChanged = false;
+  logChanged = false;
+  if (unsubscribePersistence) {
+    unsubscribePersistence();
+    unsubscribePersistence = null;
+  }
+  window.removeEventListener('pagehide', flushPersistence);
+};
+
+/**
+ * Apply a change to the store without saving it back
+ */
+const setStateFromTab = (partial: Partial<UnifiedGardenStore>) => {
+  applyingTabChange = true;
+  try {
+    useUnifiedGardenStore.setState(partial);
+  } finally {
+    applyingTabChange = false;
+  }
+};
+
+/**
+ * Take over data written by another tab
+ * The most recent write wins: an unsaved change made here after the other tab's write is kept
+ * and overwrites it when flushed; otherwise the pending write is dropped. This tab's undo history
+ * was for the data being replaced, so it is swapped for the stored history of the new data.
+ */
+const applyTabChange = async (change: TabChange) => {
+  if (change.lastSaved <= lastSavedAt) {
+    return;
+  }
+
+  const { data, migration } = await persistenceUtils.loadPersistedData();
+  if (migration?.newerVersion) {
+    // A newer build wrote the data: stop before this tab saves over it
+    stopPersistence();
+    useUnifiedGardenStore.setState({ schemaMigration: migration });
+    return;
+  }
+  if (!data || (migration && !migration.success) || data.lastSaved <= lastSavedAt) {
+    return;
+  }
+  const history = await persistenceUtils.loadHistory(data.dailyWateringState);
+  if (dataChanged && localChangeAt > data.lastSaved) {
+    return;
+  }
+
+  dataChanged = false;
+  historyChanged = false;
+  lastSavedAt = data.lastSaved;
+  setStateFromTab({ ...toStoreState(data), ...history });
+};
+
+/**
+ * Take over the undo history written by another tab
+ * Both tabs show the same data, so they share its history, unless this tab has data changes that
+ * are not written yet and will replace the other tab's.
+ */
+const applyHistoryTabChange = async () => {
+  const history = await persistenceUtils.loadHistory(useUnifiedGardenStore.getState().dailyWateringState);
+  if (dataChanged) {
+    return;
+  }
+
+  historyChanged = false;
+  setStateFromTab(history);
+};
+
+/**
+ * Add the watering records another tab wrote to this tab's log
+ */
+const applyLogTabChange = async () => {
+  const stored = await persistenceUtils.loadWateringLog();
+  setStateFromTab({ wateringLog: appendWateringRecords(useUnifiedGardenStore.getState().wateringLog, stored) });
+};
+
+let initialization: Promise<void> | null = null;
+
 /**
  * Initialize the store with persisted data
+ * Calls made while the data is still loading share the same initialization.
  */
-export const initializeUnifiedStore = () => {
+export const initializeUnifiedStore = (): Promise<void> => {
+  if (!initialization) {
+    initialization = loadStore();
+  }
+  return initialization;
+};
+
+const loadStore = async () => {
   const store = useUnifiedGardenStore.getState();
   
   if (store.isInitialized) {
     return;
   }
 
-  // Try to load persisted data
-  const persistedData = persistenceUtils.loadPersistedData();
-  
+  // Try to load persisted data, upgrading it to the current schema
+  const { data: persistedData, migration } = await persistenceUtils.loadPersistedData();
+  const data = persistedData ?? persistenceUtils.createInitialData();
+
+  // Changes made earlier in the same watering day can still be undone
+  const history = await persistenceUtils.loadHistory(data.dailyWateringState);
+  const wateringLog = await persistenceUtils.loadWateringLog();
+
   if (persistedData) {
-    // Load from persisted data
-    useUnifiedGardenStore.setState({
-      trackedCrops: persistedData.trackedCrops,
-      dailyWateringState: persistedData.dailyWateringState,
-      isInitialized: true,
-      isLoading: false,
-      lastError: null
-    });
-  } else {
-    // Initialize with empty state
-    const initialData = persistenceUtils.createInitialData();
-    persistenceUtils.savePersistedData(initialData);
-    
-    useUnifiedGardenStore.setState({
-      trackedCrops: [],
-      dailyWateringState: { ...DEFAULT_DAILY_WATERING_STATE },
-      isInitialized: true,
-      isLoading: false,
-      lastError: null
-    });
+    lastSavedAt = persistedData.lastSaved;
   }
+  useUnifiedGardenStore.setState({
+    ...toStoreState(data),
+    ...history,
+    wateringLog,
+    schemaMigration: migration,
+    isInitialized: true,
+    isLoading: false,
+    lastError: null
+  });
+
+  // Data saved by a newer version must survive: run from memory without writing anything
+  if (migration?.newerVersion) {
+    return;
+  }
+
+  // Store new or upgraded data right away so the upgrade only runs once
+  if (!persistedData || migration) {
+    persistenceUtils.savePersistedData(selectPersistedData(useUnifiedGardenStore.getState()));
+  }
+
+  startPersistence();
 };
 
 /**
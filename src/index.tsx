@@ -3,6 +3,10 @@ import ReactDOM from 'react-dom/client';
 import { BrowserRouter } from 'react-router-dom';
 import './index.css';
 import App from './App';
+import { CropCatalog } from './services/cropCatalog';
+
+// Load crop market data early and check it against the crop catalog
+CropCatalog.loadMetadata();
 
 const root = ReactDOM.createRoot(
     document.getElementById('root') as HTMLElement
@@ -0,0 +1,83 @@
+import { analyzeBuffCoverage } from './buffService';
+import { parseGridData } from './plannerService';
+
+/** Garden buffs for the tests, as crops.json lists them */
+const BUFFS: { [cropType: string]: string } = {
+  Tomato: 'Water Retain',
+  Potato: 'Harvest Boost',
+  Carrot: 'Weed Block',
+  Onion: 'None',
+  Blueberry: 'Quality Boost',
+  Apple: 'Speed Boost'
+};
+
+const coverageOf = async (saveCode: string) =>
+  analyzeBuffCoverage(await parseGridData(saveCode), cropType => BUFFS[cropType]);
+
+describe('analyzeBuffCoverage', () => {
+  it('buffs plants in the corner of the garden from their neighbours inside it', async () => {
+    const coverage = await coverageOf('v0.4_D-1_CR-PTNNNNNNN');
+
+    expect(coverage.tileBuffs).toEqual([
+      [['Water Retain'], ['Harvest Boost'], []],
+      [[], [], []],
+      [[], [], []]
+    ]);
+    expect(coverage.score).toBe(100);
+  });
+
+  it('buffs a plant on the edge from each of its neighbours', async () => {
+    const coverage = await coverageOf('v0.4_D-1_CR-CTONPNNNN');
+
+    expect(coverage.tileBuffs[0]).toEqual([['Water Retain'], ['Harvest Boost', 'Weed Block'], ['Water Retain']]);
+    expect(coverage.tileBuffs[1][1]).toEqual(['Water Retain']);
+  });
+
+  it('does not buff diagonal neighbours', async () => {
+    const coverage = await coverageOf('v0.4_D-1_CR-TNNNPNNNN');
+
+    expect(coverage.buffedTiles).toBe(0);
+    expect(coverage.plantedTiles).toBe(2);
+    expect(coverage.score).toBe(0);
+  });
+
+  it('does not buff neighbours of the same crop', async () => {
+    const coverage = await coverageOf('v0.4_D-1_CR-TTPNNNNNN');
+
+    expect(coverage.tileBuffs[0]).toEqual([[], ['Harvest Boost'], ['Water Retain']]);
+    expect(coverage.buffedTiles).toBe(2);
+    expect(coverage.score).toBe(67);
+  });
+
+  it('gives every tile of a bush the buffs of any of its tiles', async () => {
+    const coverage = await coverageOf('v0.4_D-1_CR-BBTBBNNNN');
+
+    expect(coverage.tileBuffs.slice(0, 2)).toEqual([
+      [['Water Retain'], ['Water Retain'], ['Quality Boost']],
+      [['Water Retain'], ['Water Retain'], []]
+    ]);
+    expect(coverage.tilesByBuff).toEqual({
+      'Harvest Boost': 0,
+      'Water Retain': 4,
+      'Weed Block': 0,
+      'Quality Boost': 1,
+      'Speed Boost': 0
+    });
+  });
+
+  it('buffs a tree from a neighbour in the next plot', async () => {
+    const coverage = await coverageOf('v0.4_D-11_CR-AAAAAAAAA-PNNPNNNNN');
+
+    expect(coverage.tilesByBuff['Harvest Boost']).toBe(9);
+    expect(coverage.tilesByBuff['Speed Boost']).toBe(2);
+    expect(coverage.plantedTiles).toBe(11);
+    expect(coverage.score).toBe(100);
+  });
+
+  it('leaves out tiles of incomplete footprints', async () => {
+    const coverage = await coverageOf('v0.4_D-1_CR-BBTBNNNNN');
+
+    expect(coverage.tileBuffs[0]).toEqual([[], [], []]);
+    expect(coverage.plantedTiles).toBe(1);
+  });
+});
@@ -0,0 +1,90 @@
+import { BuffCoverage, GardenBuff, GridTile, ParsedGardenData } from '../types/layout';
+import { CropCatalog } from './cropCatalog';
+
+/**
+ * Every garden buff, in display order
+ */
+export const GARDEN_BUFFS: GardenBuff[] = ['Harvest Boost', 'Water Retain', 'Weed Block', 'Quality Boost', 'Speed Boost'];
+
+/**
+ * Whether a crops.json `garden_buff` value is a known buff ("None" is not)
+ */
+export function isGardenBuff(value: string | undefined): value is GardenBuff {
+  return GARDEN_BUFFS.indexOf(value as GardenBuff) !== -1;
+}
+
+/** Orthogonal neighbours of a tile */
+const NEIGHBOUR_OFFSETS = [[-1, 0], [1, 0], [0, -1], [0, 1]];
+
+/**
+ * Whether a tile belongs to a complete plant
+ */
+function isPlanted(tile: GridTile | undefined): tile is GridTile {
+  return !!tile && tile.isActive && !!tile.cropType && !!tile.cropId;
+}
+
+/**
+ * Garden buffs every tile of a layout receives from its neighbours
+ * A plant gives its buff to the tiles next to it (not diagonally) that belong to a plant of a
+ * different crop. A bush or tree receives the buffs of all its tiles, so every tile of it shows
+ * the same buffs. Fertilizers are not counted.
+ * @param gardenData - Parsed layout
+ * @param getBuff - Buff lookup, the crop catalog by default (crops.json must be loaded)
+ * @returns Buffs per tile and the layout's coverage score
+ */
+export function analyzeBuffCoverage(
+  gardenData: ParsedGardenData,
+  getBuff: (cropType: string) => string | undefined = cropType => CropCatalog.get(cropType)?.economics?.gardenBuff
+): BuffCoverage {
+  const { tiles } = gardenData;
+
+  // Buffs per plant, gathered from the neighbours of each of its tiles
+  const plantBuffs = new Map<string, Set<GardenBuff>>();
+  tiles.forEach((row, rowIndex) => {
+    row.forEach((tile, colIndex) => {
+      if (!isPlanted(tile)) return;
+      const cropType = CropCatalog.getCanonicalName(tile.cropType as string);
+      const buffs = plantBuffs.get(tile.cropId as string) ?? new Set<GardenBuff>();
+
+      for (const [rowOffset, colOffset] of NEIGHBOUR_OFFSETS) {
+        const neighbour = tiles[rowIndex + rowOffset]?.[colIndex + colOffset];
+        if (!isPlanted(neighbour)) continue;
+        const neighbourCrop = CropCatalog.getCanonicalName(neighbour.cropType as string);
+        const buff = getBuff(neighbourCrop);
+        if (neighbourCrop !== cropType && isGardenBuff(buff)) {
+          buffs.add(buff);
+        }
+      }
+
+      plantBuffs.set(tile.cropId as string, buffs);
+    });
+  });
+
+  const tilesByBuff = GARDEN_BUFFS.reduce(
+    (counts, buff) => ({ ...counts, [buff]: 0 }),
+    {} as { [buff in GardenBuff]: number }
+  );
+  let plantedTiles = 0;
+  let buffedTiles = 0;
+
+  const tileBuffs = tiles.map(row =>
+    row.map(tile => {
+      if (!isPlanted(tile)) return [];
+      const received = plantBuffs.get(tile.cropId as string) ?? new Set<GardenBuff>();
+      const buffs = GARDEN_BUFFS.filter(buff => received.has(buff));
+
+      plantedTiles++;
+      if (buffs.length > 0) buffedTiles++;
+      buffs.forEach(buff => tilesByBuff[buff]++);
+      return buffs;
+    })
+  );
+
+  return {
+    tileBuffs,
+    plantedTiles,
+    buffedTiles,
+    score: plantedTiles > 0 ? Math.round((buffedTiles / plantedTiles) * 100) : 0,
+    tilesByBuff
+  };
+}
@@ -0,0 +1,343 @@
+import { CatalogCrop, CropDefinition, CropEconomics, GrowthSchedule } from '../types/crop';
+import { parseHarvestTime } from './growthService';
+
+/**
+ * Every crop the app knows about. Names match public/crops.json; planner codes follow
+ * palia-tools/assets/scripts/garden-planner/enums/cropCode.ts
+ */
+const CROPS: CatalogCrop[] = [
+  { name: 'Tomato', plannerCode: 'T', aliases: [], size: 'single', tiles: 1, image: '/images/65px-Tomato.webp', emoji: '🍅' },
+  { name: 'Potato', plannerCode: 'P', aliases: [], size: 'single', tiles: 1, image: '/images/65px-Potato.webp', emoji: '🥔' },
+  { name: 'Rice', plannerCode: 'R', aliases: [], size: 'single', tiles: 1, image: '/images/65px-Rice.webp', emoji: '🌾' },
+  { name: 'Wheat', plannerCode: 'W', aliases: [], size: 'single', tiles: 1, image: '/images/65px-Wheat.webp', emoji: '🌾' },
+  { name: 'Carrot', plannerCode: 'C', aliases: [], size: 'single', tiles: 1, image: '/images/65px-Carrot.webp', emoji: '🥕' },
+  { name: 'Onion', plannerCode: 'O', aliases: [], size: 'single', tiles: 1, image: '/images/65px-Onion.webp', emoji: '🧅' },
+  { name: 'Cotton', plannerCode: 'Co', aliases: [], size: 'single', tiles: 1, image: '/images/65px-Cotton.webp', emoji: '🌱' },
+  { name: 'Corn', plannerCode: 'Cr', aliases: [], size: 'single', tiles: 1, image: '/images/Corn.png', emoji: '🌽' },
+  { name: 'Napa Cabbage', plannerCode: 'Cb', aliases: [], size: 'single', tiles: 1, image: '/images/65px-Napa_Cabbage.webp', emoji: '🥬' },
+  { name: 'Bok Choy', plannerCode: 'Bk', aliases: [], size: 'single', tiles: 1, image: '/images/65px-Bok_Choy.webp', emoji: '🥬' },
+  { name: 'Lettuce', aliases: [], size: 'single', tiles: 1, image: '/images/65px-Lettuce.webp', emoji: '🥬' },
+  { name: 'Blueberry', plannerCode: 'B', aliases: ['Blueberries'], size: 'bush', tiles: 4, image: '/images/65px-Blueberries.webp', emoji: '🫐' },
+  { name: 'Spicy Pepper', plannerCode: 'S', aliases: [], size: 'bush', tiles: 4, image: '/images/65px-Spicy_Pepper.webp', emoji: '🌶️' },
+  { name: 'Batterfly Beans', plannerCode: 'Bt', aliases: ['Batterfly Bean'], size: 'bush', tiles: 4, image: '/images/65px-Batterfly_Beans.webp', emoji: '🫘' },
+  { name: 'Rockhopper Pumpkin', plannerCode: 'Pm', aliases: [], size: 'bush', tiles: 4, image: '/images/65px-Rockhopper_Pumpkin.webp', emoji: '🎃' },
+  { name: 'Apple', plannerCode: 'A', aliases: [], size: 'tree', tiles: 9, image: '/images/65px-Apple.webp', emoji: '🍎' }
+];
+
+/**
+ * Image shown for crops missing from the catalog
+ */
+const FALLBACK_IMAGE = '/images/65px-Wheat.webp';
+
+/**
+ * Tiles covered by one plant of each size
+ */
+const TILES_PER_SIZE: { [size in CatalogCrop['size']]: number } = {
+  single: 1,
+  bush: 4,
+  tree: 9
+};
+
+/**
+ * Lookup by lower-cased canonical name or alias
+ */
+const CROPS_BY_NAME: { [name: string]: CatalogCrop } = {};
+for (const crop of CROPS) {
+  for (const name of [crop.name, ...crop.aliases]) {
+    CROPS_BY_NAME[name.toLowerCase()] = crop;
+  }
+}
+
+/**
+ * Lookup by planner save code
+ */
+const CROPS_BY_PLANNER_CODE: { [code: string]: CatalogCrop } = {};
+for (const crop of CROPS) {
+  if (crop.plannerCode) {
+    CROPS_BY_PLANNER_CODE[crop.plannerCode] = crop;
+  }
+}
+
+const CROP_DEFINITION_TEXT_FIELDS: Array<keyof CropDefinition> = [
+  'name',
+  'group',
+  'description',
+  'rarity',
+  'garden_buff',
+  'picture_url'
+];
+
+const CROP_DEFINITION_VALUE_FIELDS: Array<keyof CropDefinition> = ['base_value', 'star_value'];
+
+/**
+ * Whether a parsed JSON value is a plain object
+ */
+function isJsonObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Whether a parsed JSON value is a non-empty string
+ */
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+/**
+ * Whether a parsed JSON value is a finite, non-negative number
+ */
+function isNonNegativeNumber(value: unknown): value is number {
+  return typeof value === 'number' && isFinite(value) && value >= 0;
+}
+
+/**
+ * Check a crops.json entry field by field
+ * @param entry - Raw entry from crops.json
+ * @returns One message per invalid field; empty if the entry is a valid CropDefinition
+ */
+export function validateCropDefinition(entry: unknown): string[] {
+  if (!isJsonObject(entry)) {
+    return ['entry must be an object'];
+  }
+
+  const errors: string[] = [];
+
+  for (const field of CROP_DEFINITION_TEXT_FIELDS) {
+    if (!isNonEmptyString(entry[field])) {
+      errors.push(`${field} must be a non-empty string, got ${JSON.stringify(entry[field])}`);
+    }
+  }
+
+  for (const field of CROP_DEFINITION_VALUE_FIELDS) {
+    if (!isNonNegativeNumber(entry[field])) {
+      errors.push(`${field} must be a non-negative number, got ${JSON.stringify(entry[field])}`);
+    }
+  }
+
+  const harvestTime = entry.harvest_time;
+  if (typeof harvestTime !== 'string' || !/^\d+(\+\d+)* Days?$/.test(harvestTime)) {
+    errors.push(`harvest_time must look like "4 Days" or "6+2+2+2 Days", got ${JSON.stringify(harvestTime)}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Whether a crops.json entry is a valid CropDefinition
+ */
+export function isCropDefinition(entry: unknown): entry is CropDefinition {
+  return validateCropDefinition(entry).length === 0;
+}
+
+/**
+ * Result of validating the contents of crops.json
+ */
+export interface CropDefinitionsResult {
+  /** Entries that passed validation */
+  crops: CropDefinition[];
+  /** One message per rejected field, prefixed with the entry's position */
+  errors: string[];
+}
+
+/**
+ * Validates the parsed contents of crops.json, dropping entries with invalid fields
+ * @param data - Parsed JSON
+ * @returns Valid entries plus an error for every invalid field (e.g. "crops.json[3] (Corn): base_value must be ...")
+ */
+export function parseCropDefinitions(data: unknown): CropDefinitionsResult {
+  if (!Array.isArray(data)) {
+    return { crops: [], errors: ['crops.json must contain an array of crops'] };
+  }
+
+  const result: CropDefinitionsResult = { crops: [], errors: [] };
+  data.forEach((entry: unknown, index) => {
+    if (isCropDefinition(entry)) {
+      result.crops.push(entry);
+      return;
+    }
+
+    const name = isJsonObject(entry) ? entry.name : undefined;
+    const label = typeof name === 'string' ? `crops.json[${index}] (${name})` : `crops.json[${index}]`;
+    validateCropDefinition(entry).forEach(error => result.errors.push(`${label}: ${error}`));
+  });
+
+  return result;
+}
+
+/**
+ * Normalises an image path so "images/x.webp" and "/images/x.webp" compare equal
+ */
+function normaliseImagePath(path: string): string {
+  return path.startsWith('/') ? path : `/${path}`;
+}
+
+/**
+ * Single source of truth for crop codes, names, sizes, images and market data
+ */
+export class CropCatalog {
+  private static metadataPromise: Promise<CropDefinition[]> | null = null;
+
+  /**
+   * All catalog crops
+   */
+  static getAll(): CatalogCrop[] {
+    return CROPS;
+  }
+
+  /**
+   * Find a crop by canonical name or alias (case-insensitive)
+   */
+  static get(name: string | null | undefined): CatalogCrop | undefined {
+    return name ? CROPS_BY_NAME[name.toLowerCase()] : undefined;
+  }
+
+  /**
+   * Find a crop by its Palia Garden Planner code (e.g., "Bt")
+   */
+  static getByPlannerCode(code: string): CatalogCrop | undefined {
+    return CROPS_BY_PLANNER_CODE[code];
+  }
+
+  /**
+   * Canonical name for a crop name or alias; unknown names are returned unchanged
+   */
+  static getCanonicalName(name: string): string {
+    return this.get(name)?.name ?? name;
+  }
+
+  /**
+   * Image path for a crop, falling back to a generic crop image
+   */
+  static getImage(name: string): string {
+    return this.get(name)?.image ?? FALLBACK_IMAGE;
+  }
+
+  /**
+   * Emoji for a crop, or an empty string if the crop is unknown
+   */
+  static getEmoji(name: string): string {
+    return this.get(name)?.emoji ?? '';
+  }
+
+  /**
+   * Growth schedule for a crop, available once crops.json has been loaded
+   */
+  static getGrowthSchedule(name: string): GrowthSchedule | undefined {
+    return this.get(name)?.economics?.growth;
+  }
+
+  /**
+   * Check the catalog for internal conflicts and, when given, against crops.json entries
+   * @param cropEntries - Validated entries from crops.json
+   * @returns Human-readable descriptions of every inconsistency found
+   */
+  static checkConsistency(cropEntries?: CropDefinition[]): string[] {
+    const problems: string[] = [];
+    const seenNames: { [name: string]: string } = {};
+    const seenCodes: { [code: string]: string } = {};
+
+    for (const crop of CROPS) {
+      for (const name of [crop.name, ...crop.aliases]) {
+        const key = name.toLowerCase();
+        if (seenNames[key]) {
+          problems.push(`"${name}" is used by both ${seenNames[key]} and ${crop.name}`);
+        }
+        seenNames[key] = crop.name;
+      }
+
+      if (crop.plannerCode) {
+        if (seenCodes[crop.plannerCode]) {
+          problems.push(`Planner code "${crop.plannerCode}" is used by both ${seenCodes[crop.plannerCode]} and ${crop.name}`);
+        }
+        seenCodes[crop.plannerCode] = crop.name;
+      }
+
+      if (crop.tiles !== TILES_PER_SIZE[crop.size]) {
+        problems.push(`${crop.name} is a ${crop.size} but covers ${crop.tiles} tiles`);
+      }
+    }
+
+    if (cropEntries) {
+      const listedNames = new Set<string>();
+
+      for (const entry of cropEntries) {
+        const crop = this.get(entry.name);
+        if (!crop) {
+          problems.push(`crops.json lists "${entry.name}", which is not in the crop catalog`);
+          continue;
+        }
+        listedNames.add(crop.name);
+
+        if (entry.name !== crop.name) {
+          problems.push(`crops.json uses the alias "${entry.name}" instead of "${crop.name}"`);
+        }
+        if (normaliseImagePath(entry.picture_url) !== crop.image) {
+          problems.push(`crops.json image for ${crop.name} is "${entry.picture_url}", catalog has "${crop.image}"`);
+        }
+      }
+
+      for (const crop of CROPS) {
+        if (!listedNames.has(crop.name)) {
+          problems.push(`${crop.name} is missing from crops.json`);
+        }
+      }
+    }
+
+    return problems;
+  }
+
+  /**
+   * Load and validate crops.json, attach its market data to the catalog and report any problems
+   * Invalid entries are left out. The file is only fetched once; later calls share the same result.
+   * @returns The valid crops.json entries
+   */
+  static loadMetadata(): Promise<CropDefinition[]> {
+    if (!this.metadataPromise) {
+      this.metadataPromise = fetch('crops.json')
+        .then(res => res.json())
+        .then((data: unknown) => {
+          const { crops, errors } = parseCropDefinitions(data);
+          if (errors.length > 0) {
+            console.warn('Rejected invalid crops.json entries:', errors);
+          }
+
+          for (const entry of crops) {
+            const crop = this.get(entry.name);
+            if (crop) {
+              crop.economics = this.toEconomics(entry);
+            }
+          }
+
+          const problems = this.checkConsistency(crops);
+          if (problems.length > 0) {
+            console.warn('Crop catalog is inconsistent with crops.json:', problems);
+          }
+
+          return crops;
+        })
+        .catch(error => {
+          console.error('Failed to load crops.json:', error);
+          this.metadataPromise = null;
+          return [];
+        });
+    }
+
+    return this.metadataPromise;
+  }
+
+  /**
+   * Convert a crops.json entry into catalog market data
+   */
+  private static toEconomics(entry: CropDefinition): CropEconomics {
+    return {
+      group: entry.group,
+      description: entry.description,
+      rarity: entry.rarity,
+      gardenBuff: entry.garden_buff,
+      harvestTime: entry.harvest_time,
+      growth: parseHarvestTime(entry.harvest_time) ?? undefined,
+      baseValue: entry.base_value,
+      starValue: entry.star_value
+    };
+  }
+}
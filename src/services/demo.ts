@@ -4,7 +4,8 @@
  */
 
 import { parseGridData, generateCropSummary, parseSaveCode } from './plannerService';
-import { layoutService } from './layoutService';
+import { layoutService, LayoutService } from './layoutService';
+import { MemoryStorageAdapter } from './storageAdapter';
 import { ParsedGardenData, SavedLayout, LayoutSearchOptions } from '../types/layout';
 
 // Sample save code for demonstration (3x3 garden with mixed crops)
@@ -62,13 +63,13 @@ export async function demonstrateLayoutManagement(): Promise<void> {
       console.log('🏷️ Tags:', layout.metadata.tags);
       
       // Load the layout back
-      const loadResult = layoutService.loadLayout(layout.metadata.id);
+      const loadResult = await layoutService.loadLayout(layout.metadata.id);
       if (loadResult.success) {
         console.log('📂 Layout loaded successfully!');
       }
       
       // Update layout metadata
-      const updateResult = layoutService.updateLayoutMetadata(layout.metadata.id, {
+      const updateResult = await layoutService.updateLayoutMetadata(layout.metadata.id, {
         name: 'Updated Garden Name',
         tags: ['mixed', 'efficient', 'updated']
       });
@@ -85,13 +86,13 @@ export async function demonstrateLayoutManagement(): Promise<void> {
         sortDirection: 'desc'
       };
       
-      const searchResult = layoutService.searchLayouts(searchOptions);
+      const searchResult = await layoutService.searchLayouts(searchOptions);
       if (searchResult.success) {
         console.log('🔍 Found layouts:', searchResult.data?.length);
       }
       
       // Get storage info
-      const storageInfo = layoutService.getStorageInfo();
+      const storageInfo = await layoutService.getStorageInfo();
       console.log('💽 Storage Info:');
       console.log('  - Current layouts:', storageInfo.currentCount);
       console.log('  - Available slots:', storageInfo.availableSlots);
@@ -118,12 +119,12 @@ export async function demonstrateExportImport(): Promise<void> {
     await layoutService.saveLayout(SAMPLE_SAVE_CODE, 'Garden 2', { tags: ['export-demo'] });
     
     // Export layouts
-    const exportResult = layoutService.exportLayouts();
+    const exportResult = await layoutService.exportLayouts();
     if (exportResult.success && exportResult.data) {
       console.log('📤 Export successful! Data size:', exportResult.data.length, 'characters');
       
       // Clear layouts
-      layoutService.clearAllLayouts();
+      await layoutService.clearAllLayouts();
       console.log('🗑️ Layouts cleared');
       
       // Import layouts back
@@ -153,13 +154,13 @@ export async function demonstrateErrorHandling(): Promise<void> {
   }
   
   // Try to load non-existent layout
-  const loadResult = layoutService.loadLayout('non-existent-id');
+  const loadResult = await layoutService.loadLayout('non-existent-id');
   if (!loadResult.success) {
     console.log('✅ Correctly handled missing layout:', loadResult.error?.type);
   }
   
-  // Try to exceed quota (using a test service with low limit)
-  const testService = new (require('./layoutService').LayoutService)({ maxLayouts: 1 });
+  // Try to exceed quota (using an in-memory test service with low limit)
+  const testService = new LayoutService({ maxLayouts: 1 }, new MemoryStorageAdapter());
   
   const result1 = await testService.saveLayout(SAMPLE_SAVE_CODE, 'Layout 1');
   const result2 = await testService.saveLayout(SAMPLE_SAVE_CODE, 'Layout 2');
@@ -0,0 +1,69 @@
+import { GrowthProgress, GrowthSchedule, HarvestForecast } from '../types/crop';
+
+/**
+ * Parses a crops.json harvest time into a growth schedule
+ * @param harvestTime - Harvest time text (e.g., "4 Days" or "6+2+2+2 Days")
+ * @returns The schedule, or null if the text is not a harvest time or its regrowth cycles differ in length
+ */
+export function parseHarvestTime(harvestTime: string): GrowthSchedule | null {
+  const match = harvestTime.trim().match(/^(\d+(?:\s*\+\s*\d+)*)\s+Days?$/i);
+  if (!match) {
+    return null;
+  }
+
+  const [firstHarvestDays, ...regrowths] = match[1].split('+').map(part => Number(part.trim()));
+  if (firstHarvestDays <= 0 || regrowths.some(days => days <= 0 || days !== regrowths[0])) {
+    return null;
+  }
+
+  return {
+    firstHarvestDays,
+    regrowDays: regrowths.length > 0 ? regrowths[0] : 0,
+    regrowCycles: regrowths.length
+  };
+}
+
+/**
+ * Cumulative watered days at which each harvest is ready
+ * @param schedule - Growth schedule of the crop
+ * @returns One entry per harvest, starting with the first harvest
+ */
+export function getHarvestDays(schedule: GrowthSchedule): number[] {
+  const harvestDays = [schedule.firstHarvestDays];
+  for (let cycle = 1; cycle <= schedule.regrowCycles; cycle++) {
+    harvestDays.push(schedule.firstHarvestDays + cycle * schedule.regrowDays);
+  }
+  return harvestDays;
+}
+
+/**
+ * Forecasts the next harvest of a planted crop
+ * Crops only grow on days they are watered, so growth completed before today is the watered
+ * day count minus today's watering. The forecast assumes the crop is watered every day from now on.
+ * @param schedule - Growth schedule of the crop
+ * @param progress - Planting day and watering record of the crop
+ * @param currentDay - Current Palia day
+ * @returns The next harvest, or null once every harvest in the schedule has passed
+ */
+export function forecastHarvest(
+  schedule: GrowthSchedule,
+  progress: GrowthProgress,
+  currentDay: number
+): HarvestForecast | null {
+  const grownDays = Math.max(0, progress.daysWatered - (progress.wateredToday ? 1 : 0));
+  const harvestDays = getHarvestDays(schedule);
+  const harvestIndex = harvestDays.findIndex(days => days >= grownDays);
+  if (harvestIndex === -1) {
+    return null;
+  }
+
+  const daysRemaining = harvestDays[harvestIndex] - grownDays;
+  // A crop planted in the future starts growing on its planting day
+  const growthStartDay = Math.max(currentDay, progress.plantedOnDay);
+
+  return {
+    harvestNumber: harvestIndex + 1,
+    readyDay: growthStartDay + daysRemaining,
+    daysRemaining
+  };
+}
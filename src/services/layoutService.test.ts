@@ -0,0 +1,78 @@
+import { LayoutService } from './layoutService';
+import { MemoryStorageAdapter } from './storageAdapter';
+
+const SAVE_CODE = 'v0.4_D-1_CR-TTTTTTTTT';
+const BROKEN_SAVE_CODE = 'v0.4_broken';
+const LAYOUTS_KEY = 'palia_watering_tracker_layouts_data';
+
+/** A layout as found in an export, without garden data */
+const exportedLayout = (id: string, saveCode: string) => ({
+  metadata: {
+    id,
+    name: `Layout ${id}`,
+    description: '',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    lastModified: '2024-01-01T00:00:00.000Z',
+    tags: [],
+    plantCount: 9,
+    plotCount: 1,
+    dominantCrops: ['Tomato']
+  },
+  saveCode,
+  isFavorite: false
+});
+
+let storage: MemoryStorageAdapter;
+let service: LayoutService;
+
+beforeEach(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  storage = new MemoryStorageAdapter();
+  service = new LayoutService({}, storage);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('importLayouts', () => {
+  it('skips layouts whose save code does not parse', async () => {
+    const result = await service.importLayouts(JSON.stringify({
+      layouts: [exportedLayout('good', SAVE_CODE), exportedLayout('bad', BROKEN_SAVE_CODE)]
+    }));
+
+    expect(result).toEqual({ success: true, data: 1 });
+    const listed = await service.searchLayouts();
+    expect(listed.data?.map(layout => layout.metadata.id)).toEqual(['good']);
+  });
+});
+
+describe('stored layouts that no longer parse', () => {
+  beforeEach(async () => {
+    await storage.setItem(LAYOUTS_KEY, JSON.stringify([
+      exportedLayout('good', SAVE_CODE),
+      exportedLayout('bad', BROKEN_SAVE_CODE)
+    ]));
+  });
+
+  it('are left out of listings', async () => {
+    const listed = await service.searchLayouts();
+
+    expect(listed.success).toBe(true);
+    expect(listed.data?.map(layout => layout.metadata.id)).toEqual(['good']);
+    expect(listed.data?.[0].gardenData.cropSummary.totalPlants).toBe(9);
+  });
+
+  it('are left out of exports', async () => {
+    const exported = await service.exportLayouts();
+
+    expect(exported.success).toBe(true);
+    expect(JSON.parse(exported.data as string).layouts.map((layout: { metadata: { id: string } }) => layout.metadata.id))
+      .toEqual(['good']);
+  });
+
+  it('fail to load on their own', async () => {
+    expect((await service.loadLayout('bad')).success).toBe(false);
+    expect((await service.loadLayout('good')).success).toBe(true);
+  });
+});
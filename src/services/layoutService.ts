@@ -1,6 +1,7 @@
 import { v4 as uuidv4 } from 'uuid';
 import { 
   SavedLayout, 
+  StoredLayout,
   LayoutMetadata, 
   ParsedGardenData, 
   StorageInfo, 
@@ -9,7 +10,16 @@ import {
   LayoutOperationResult, 
   LayoutSearchOptions 
 } from '../types/layout';
-import { parseGridData } from './plannerService';
+import { parseGridData, SaveCodeError } from './plannerService';
+import {
+  StorageAdapter,
+  LocalStorageAdapter,
+  createDefaultStorageAdapter,
+  isIndexedDBAvailable,
+  moveStorageItem,
+  resolveStorageAdapter
+} from './storageAdapter';
+import { publishTabChange, subscribeToTabChanges } from './tabSync';
 
 /**
  * Default configuration for the layout service
@@ -17,21 +27,56 @@ import { parseGridData } from './plannerService';
 const DEFAULT_CONFIG: LayoutServiceConfig = {
   maxLayouts: 50,
   storagePrefix: 'palia_watering_tracker_layouts',
-  enableCompression: false
+  enableCompression: true
 };
 
 /**
- * Service for managing saved garden layouts in localStorage
+ * Layout limit when layouts are kept in IndexedDB rather than the ~5 MB of localStorage
+ */
+const INDEXED_DB_MAX_LAYOUTS = 500;
+
+/**
+ * Service for managing saved garden layouts through a storage adapter
+ * Layouts are read from storage once and then served from memory; every change is written through.
+ * With compression enabled only the save code is stored, and garden data is parsed again on first use.
+ * When another tab writes layouts, the cache is dropped and subscribers are told to read them again.
  */
 export class LayoutService {
   private config: LayoutServiceConfig;
   private storageKey: string;
   private metadataKey: string;
-
-  constructor(config: Partial<LayoutServiceConfig> = {}) {
+  private storage: StorageAdapter;
+  private cache: StoredLayout[] | null = null;
+  private loadPromise: Promise<StoredLayout[]> | null = null;
+  /** Size in bytes of the layout data last read from or written to storage */
+  private storedBytes = 0;
+  /** Garden data re-derived from save codes, keyed by save code */
+  private gardenDataCache = new Map<string, ParsedGardenData>();
+  private listeners = new Set<() => void>();
+
+  constructor(config: Partial<LayoutServiceConfig> = {}, storage: StorageAdapter = new LocalStorageAdapter()) {
     this.config = { ...DEFAULT_CONFIG, ...config };
     this.storageKey = `${this.config.storagePrefix}_data`;
     this.metadataKey = `${this.config.storagePrefix}_metadata`;
+    this.storage = storage;
+
+    subscribeToTabChanges(this.storageKey, () => {
+      // The next read loads what the other tab stored
+      this.cache = null;
+      this.listeners.forEach(listener => listener());
+    });
+  }
+
+  /**
+   * Listen for layouts changed by another tab
+   * @param listener - Called after another tab saves, updates or deletes layouts
+   * @returns Function that stops listening
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
   }
 
   /**
@@ -54,7 +99,7 @@ export class LayoutService {
       
       // Check quota if creating new layout
       if (!options.updateExisting) {
-        const storageInfo = this.getStorageInfo();
+        const storageInfo = await this.getStorageInfo();
         if (storageInfo.currentCount >= this.config.maxLayouts) {
           return {
             success: false,
@@ -75,7 +120,7 @@ export class LayoutService {
         id: options.existingId || uuidv4(),
         name: name.trim(),
         description: this.generateDescription(gardenData),
-        createdAt: options.updateExisting ? this.getExistingLayout(options.existingId!)?.metadata.createdAt || now : now,
+        createdAt: options.updateExisting ? (await this.getExistingLayout(options.existingId!))?.metadata.createdAt || now : now,
         lastModified: now,
         plotCount: this.countActivePlots(gardenData.activePlots),
         plantCount: gardenData.cropSummary.totalPlants,
@@ -93,7 +138,7 @@ export class LayoutService {
       };
 
       // Save to storage
-      const layouts = this.getAllLayouts();
+      const layouts = await this.getAllLayouts();
       const existingIndex = layouts.findIndex(l => l.metadata.id === metadata.id);
       
       if (existingIndex >= 0) {
@@ -102,7 +147,8 @@ export class LayoutService {
         layouts.push(savedLayout);
       }
 
-      this.saveToStorage(layouts);
+      this.gardenDataCache.set(saveCode, gardenData);
+      await this.saveToStorage(layouts);
 
       return {
         success: true,
@@ -113,7 +159,7 @@ export class LayoutService {
       return {
         success: false,
         error: {
-          type: LayoutError.VALIDATION_ERROR,
+          type: error instanceof SaveCodeError ? error.type : LayoutError.VALIDATION_ERROR,
           message: error instanceof Error ? error.message : 'Failed to save layout',
           details: error
         }
@@ -124,9 +170,9 @@ export class LayoutService {
   /**
    * Load a layout by ID
    */
-  loadLayout(id: string): LayoutOperationResult<SavedLayout> {
+  async loadLayout(id: string): Promise<LayoutOperationResult<SavedLayout>> {
     try {
-      const layouts = this.getAllLayouts();
+      const layouts = await this.getAllLayouts();
       const layout = layouts.find(l => l.metadata.id === id);
 
       if (!layout) {
@@ -141,13 +187,13 @@ export class LayoutService {
 
       return {
         success: true,
-        data: layout
+        data: await this.withGardenData(layout)
       };
     } catch (error) {
       return {
         success: false,
         error: {
-          type: LayoutError.STORAGE_ERROR,
+          type: error instanceof SaveCodeError ? error.type : LayoutError.STORAGE_ERROR,
           message: 'Failed to load layout',
           details: error
         }
@@ -158,9 +204,9 @@ export class LayoutService {
   /**
    * Delete a layout by ID
    */
-  deleteLayout(id: string): LayoutOperationResult<boolean> {
+  async deleteLayout(id: string): Promise<LayoutOperationResult<boolean>> {
     try {
-      const layouts = this.getAllLayouts();
+      const layouts = await this.getAllLayouts();
       const initialCount = layouts.length;
       const filteredLayouts = layouts.filter(l => l.metadata.id !== id);
 
@@ -174,7 +220,7 @@ export class LayoutService {
         };
       }
 
-      this.saveToStorage(filteredLayouts);
+      await this.saveToStorage(filteredLayouts);
 
       return {
         success: true,
@@ -195,9 +241,9 @@ export class LayoutService {
   /**
    * Get all layouts with optional search and filtering
    */
-  searchLayouts(options: LayoutSearchOptions = {}): LayoutOperationResult<SavedLayout[]> {
+  async searchLayouts(options: LayoutSearchOptions = {}): Promise<LayoutOperationResult<SavedLayout[]>> {
     try {
-      let layouts = this.getAllLayouts();
+      let layouts = await this.getAllLayouts();
 
       // Apply filters
       if (options.query) {
@@ -271,7 +317,7 @@ export class LayoutService {
 
       return {
         success: true,
-        data: layouts
+        data: await this.withParsedGardenData(layouts)
       };
     } catch (error) {
       return {
@@ -288,7 +334,7 @@ export class LayoutService {
   /**
    * Update layout metadata (name, notes, tags, favorite status)
    */
-  updateLayoutMetadata(
+  async updateLayoutMetadata(
     id: string, 
     updates: {
       name?: string;
@@ -296,9 +342,9 @@ export class LayoutService {
       tags?: string[];
       isFavorite?: boolean;
     }
-  ): LayoutOperationResult<SavedLayout> {
+  ): Promise<LayoutOperationResult<SavedLayout>> {
     try {
-      const layouts = this.getAllLayouts();
+      const layouts = await this.getAllLayouts();
       const layoutIndex = layouts.findIndex(l => l.metadata.id === id);
 
       if (layoutIndex === -1) {
@@ -311,7 +357,11 @@ export class LayoutService {
         };
       }
 
-      const layout = layouts[layoutIndex];
+      // Update a copy so a failed write leaves the cached layout untouched
+      const layout: StoredLayout = {
+        ...layouts[layoutIndex],
+        metadata: { ...layouts[layoutIndex].metadata }
+      };
       
       // Update metadata
       if (updates.name !== undefined) {
@@ -330,11 +380,11 @@ export class LayoutService {
       layout.metadata.lastModified = new Date();
       layouts[layoutIndex] = layout;
 
-      this.saveToStorage(layouts);
+      await this.saveToStorage(layouts);
 
       return {
         success: true,
-        data: layout
+        data: await this.withGardenData(layout)
       };
     } catch (error) {
       return {
@@ -350,14 +400,12 @@ export class LayoutService {
 
   /**
    * Get storage information and quota status
+   * The storage limit is the backend's quota as reported by the browser (0 if unknown).
    */
-  getStorageInfo(): StorageInfo {
-    const layouts = this.getAllLayouts();
-    const storageData = localStorage.getItem(this.storageKey) || '[]';
-    const storageUsed = new Blob([storageData]).size;
-    
-    // Estimate localStorage limit (usually 5-10MB, we'll use 5MB as conservative estimate)
-    const storageLimit = 5 * 1024 * 1024; // 5MB in bytes
+  async getStorageInfo(): Promise<StorageInfo> {
+    const layouts = await this.getAllLayouts();
+    const storageUsed = this.storedBytes;
+    const storageLimit = (await this.storage.getQuota()) ?? 0;
 
     return {
       currentCount: layouts.length,
@@ -371,18 +419,19 @@ export class LayoutService {
   /**
    * Export layouts as JSON
    */
-  exportLayouts(layoutIds?: string[]): LayoutOperationResult<string> {
+  async exportLayouts(layoutIds?: string[]): Promise<LayoutOperationResult<string>> {
     try {
-      let layouts = this.getAllLayouts();
+      let layouts = await this.getAllLayouts();
       
       if (layoutIds && layoutIds.length > 0) {
         layouts = layouts.filter(layout => layoutIds.includes(layout.metadata.id));
       }
 
+      // Exports always include garden data so older versions of the app can import them
       const exportData = {
         version: '1.0',
         exportDate: new Date().toISOString(),
-        layouts
+        layouts: await this.withParsedGardenData(layouts)
       };
 
       return {
@@ -418,12 +467,12 @@ export class LayoutService {
         };
       }
 
-      const existingLayouts = this.getAllLayouts();
+      const existingLayouts = await this.getAllLayouts();
       let importedCount = 0;
 
       for (const layoutData of importData.layouts) {
-        // Validate layout structure
-        if (!this.isValidSavedLayout(layoutData)) {
+        // Validate layout structure, and that its garden can be rebuilt from the save code
+        if (!this.isValidSavedLayout(layoutData) || !(await this.canParseSaveCode(layoutData.saveCode))) {
           continue;
         }
 
@@ -444,7 +493,7 @@ export class LayoutService {
         }
       }
 
-      this.saveToStorage(existingLayouts);
+      await this.saveToStorage(existingLayouts);
 
       return {
         success: true,
@@ -465,10 +514,14 @@ export class LayoutService {
   /**
    * Clear all layouts (with confirmation)
    */
-  clearAllLayouts(): LayoutOperationResult<boolean> {
+  async clearAllLayouts(): Promise<LayoutOperationResult<boolean>> {
     try {
-      localStorage.removeItem(this.storageKey);
-      localStorage.removeItem(this.metadataKey);
+      await this.storage.removeItem(this.storageKey);
+      await this.storage.removeItem(this.metadataKey);
+      this.cache = [];
+      this.storedBytes = 0;
+      this.gardenDataCache.clear();
+      publishTabChange(this.storageKey, Date.now());
 
       return {
         success: true,
@@ -488,11 +541,40 @@ export class LayoutService {
 
   // Private helper methods
 
-  private getAllLayouts(): SavedLayout[] {
+  /**
+   * All layouts as a new array that callers may reorder or extend
+   */
+  private async getAllLayouts(): Promise<StoredLayout[]> {
+    if (!this.cache) {
+      // Concurrent first reads share one load; a failed load is retried by the next read
+      if (!this.loadPromise) {
+        this.loadPromise = this.loadFromStorage();
+      }
+      try {
+        this.cache = await this.loadPromise;
+      } finally {
+        this.loadPromise = null;
+      }
+    }
+
+    return [...this.cache];
+  }
+
+  private async loadFromStorage(): Promise<StoredLayout[]> {
+    // Layouts saved before the storage adapter existed are still in localStorage
+    // (unless the storage fell back to localStorage itself)
+    const backend = await resolveStorageAdapter(this.storage);
+    if (!(backend instanceof LocalStorageAdapter) && typeof localStorage !== 'undefined') {
+      const localStorageAdapter = new LocalStorageAdapter();
+      await moveStorageItem(this.storageKey, localStorageAdapter, backend);
+      await localStorageAdapter.removeItem(this.metadataKey);
+    }
+
+    const data = await this.storage.getItem(this.storageKey);
+    this.storedBytes = data ? this.byteSize(data) : 0;
+    if (!data) return [];
+
     try {
-      const data = localStorage.getItem(this.storageKey);
-      if (!data) return [];
-      
       const layouts = JSON.parse(data);
       return Array.isArray(layouts) ? layouts : [];
     } catch (error) {
@@ -501,16 +583,82 @@ export class LayoutService {
     }
   }
 
-  private saveToStorage(layouts: SavedLayout[]): void {
+  private async saveToStorage(layouts: StoredLayout[]): Promise<void> {
+    const records = await Promise.all(layouts.map(layout => this.toStoredLayout(layout)));
+    const data = JSON.stringify(records);
+    try {
+      await this.storage.setItem(this.storageKey, data);
+    } catch (error) {
+      throw new Error(`Failed to save to ${this.storage.name}: ${error}`);
+    }
+    // Cache what a fresh load would return, with dates as strings
+    this.cache = JSON.parse(data);
+    this.storedBytes = this.byteSize(data);
+    publishTabChange(this.storageKey, Date.now());
+  }
+
+  /**
+   * The layout as it should be stored: without garden data when compressing, with it otherwise
+   * Layouts stored before compression was turned on keep working and are compressed on the next write.
+   */
+  private async toStoredLayout(layout: StoredLayout): Promise<StoredLayout> {
+    if (this.config.enableCompression) {
+      const { gardenData, ...compressed } = layout;
+      return compressed;
+    }
+    // A layout whose save code no longer parses is kept as it is rather than failing the write
+    return this.withGardenData(layout).catch(() => layout);
+  }
+
+  /**
+   * The layout with its garden data, parsing the save code of compressed layouts once per save code
+   */
+  private async withGardenData(layout: StoredLayout): Promise<SavedLayout> {
+    if (layout.gardenData) {
+      return layout as SavedLayout;
+    }
+
+    let gardenData = this.gardenDataCache.get(layout.saveCode);
+    if (!gardenData) {
+      gardenData = await parseGridData(layout.saveCode);
+      this.gardenDataCache.set(layout.saveCode, gardenData);
+    }
+    return { ...layout, gardenData };
+  }
+
+  /**
+   * Garden data for several layouts, leaving out layouts whose save code cannot be parsed
+   * One broken layout must not hide the others from listings and exports.
+   */
+  private async withParsedGardenData(layouts: StoredLayout[]): Promise<SavedLayout[]> {
+    const parsed = await Promise.all(layouts.map(layout =>
+      this.withGardenData(layout).catch(error => {
+        console.warn(`Skipping layout "${layout.metadata.name}", its save code cannot be parsed:`, error);
+        return null;
+      })
+    ));
+    return parsed.filter((layout): layout is SavedLayout => layout !== null);
+  }
+
+  /**
+   * Whether a save code parses, caching its garden data for later reads
+   */
+  private async canParseSaveCode(saveCode: string): Promise<boolean> {
     try {
-      localStorage.setItem(this.storageKey, JSON.stringify(layouts));
+      this.gardenDataCache.set(saveCode, await parseGridData(saveCode));
+      return true;
     } catch (error) {
-      throw new Error(`Failed to save to localStorage: ${error}`);
+      console.warn('Skipping imported layout, its save code cannot be parsed:', error);
+      return false;
     }
   }
 
-  private getExistingLayout(id: string): SavedLayout | null {
-    const layouts = this.getAllLayouts();
+  private byteSize(data: string): number {
+    return new Blob([data]).size;
+  }
+
+  private async getExistingLayout(id: string): Promise<StoredLayout | null> {
+    const layouts = await this.getAllLayouts();
     return layouts.find(l => l.metadata.id === id) || null;
   }
 
@@ -547,7 +695,7 @@ export class LayoutService {
     return activePlots.flat().filter(Boolean).length;
   }
 
-  private isValidSavedLayout(data: any): data is SavedLayout {
+  private isValidSavedLayout(data: any): data is StoredLayout {
     return (
       data &&
       typeof data === 'object' &&
@@ -555,14 +703,17 @@ export class LayoutService {
       typeof data.metadata.id === 'string' &&
       typeof data.metadata.name === 'string' &&
       typeof data.saveCode === 'string' &&
-      data.gardenData &&
+      (data.gardenData === undefined || (typeof data.gardenData === 'object' && data.gardenData !== null)) &&
       typeof data.isFavorite === 'boolean'
     );
   }
 }
 
-// Export a default instance
-export const layoutService = new LayoutService();
+// Export a default instance, kept in IndexedDB where the browser supports it
+export const layoutService = new LayoutService(
+  isIndexedDBAvailable() ? { maxLayouts: INDEXED_DB_MAX_LAYOUTS } : {},
+  createDefaultStorageAdapter()
+);
 
 // Export utility functions
 export {
@@ -106,6 +106,7 @@ export class MigrationService {
             trackedCrop.isWatered = legacyData.cropWateringState.watered[cropType];
             if (trackedCrop.isWatered) {
               trackedCrop.lastWateredAt = new Date();
+              trackedCrop.daysWatered = 1;
             }
           }
 
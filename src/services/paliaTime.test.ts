@@ -0,0 +1,119 @@
+import {
+  getNextPaliaDayStart,
+  getNextPaliaHour,
+  getPaliaTime,
+  getPaliaTimeSinceReset,
+  getRealTimeOfPaliaDay
+} from './paliaTime';
+
+const HOUR = 60 * 60 * 1000;
+const PALIA_HOUR = HOUR / 24;
+
+/** Monday 2024-08-19 05:00 UTC = Sunday 21:00 PST, the start of Palia week 2850 */
+const WEEK_START = Date.UTC(2024, 7, 19, 5);
+
+/** Sunday 2024-03-10 10:00 UTC = 02:00 PST, when the US switches to daylight saving time */
+const DST_START = Date.UTC(2024, 2, 10, 10);
+
+/** Sunday 2024-11-03 09:00 UTC = 01:00 PST, when the US switches back to standard time */
+const DST_END = Date.UTC(2024, 10, 3, 9);
+
+describe('getPaliaTime', () => {
+  it('starts a new week at Sunday 9 PM PST', () => {
+    const start = getPaliaTime(WEEK_START);
+    expect(start.weekIdentifier).toBe('week-2850');
+    expect(start.dayText).toBe('Day 1 Cycle 01');
+    expect(start.dayOfWeek).toBe(0);
+    expect(start.clockTime).toBe('00:00');
+  });
+
+  it('ends the previous week one millisecond earlier', () => {
+    const end = getPaliaTime(WEEK_START - 1);
+    expect(end.weekIdentifier).toBe('week-2849');
+    expect(end.dayText).toBe('Day 7 Cycle 24');
+    expect(end.dayOfWeek).toBe(6);
+    expect(end.clockTime).toBe('23:59');
+  });
+
+  it('advances one Palia day per real hour', () => {
+    const day = getPaliaTime(WEEK_START).paliaDay;
+    expect(getPaliaTime(WEEK_START + HOUR).paliaDay).toBe(day + 1);
+    expect(getPaliaTime(WEEK_START + HOUR).dayText).toBe('Day 1 Cycle 02');
+    expect(getPaliaTime(WEEK_START + 6 * PALIA_HOUR).clockTime).toBe('06:00');
+    expect(getPaliaTime(WEEK_START + 6 * PALIA_HOUR).partOfDay).toBe('Day');
+  });
+
+  it('does not shift when daylight saving time starts', () => {
+    const before = getPaliaTime(DST_START - HOUR);
+    const after = getPaliaTime(DST_START + HOUR);
+    expect(getPaliaTime(DST_START).paliaDay).toBe(474938);
+    expect(getPaliaTime(DST_START).clockTime).toBe('00:00');
+    expect(after.paliaDay - before.paliaDay).toBe(2);
+    expect(after.clockTime).toBe(before.clockTime);
+  });
+
+  it('does not repeat days when daylight saving time ends', () => {
+    const days = [-HOUR, 0, HOUR, 2 * HOUR].map(offset => getPaliaTime(DST_END + offset).paliaDay);
+    expect(days).toEqual([days[0], days[0] + 1, days[0] + 2, days[0] + 3]);
+    expect(getPaliaTime(DST_END).clockTime).toBe('00:00');
+  });
+});
+
+describe('getPaliaTimeSinceReset', () => {
+  it('keeps the previous day until the reset hour passes', () => {
+    const { paliaDay } = getPaliaTime(WEEK_START);
+    expect(getPaliaTimeSinceReset(WEEK_START + 6 * PALIA_HOUR - 1, 6).paliaDay).toBe(paliaDay - 1);
+    expect(getPaliaTimeSinceReset(WEEK_START + 6 * PALIA_HOUR, 6).paliaDay).toBe(paliaDay);
+  });
+
+  it('places the reset days before the first reset in the previous week', () => {
+    expect(getPaliaTimeSinceReset(WEEK_START + PALIA_HOUR, 6).weekIdentifier).toBe('week-2849');
+    expect(getPaliaTimeSinceReset(WEEK_START + 6 * PALIA_HOUR, 6).weekIdentifier).toBe('week-2850');
+  });
+});
+
+describe('getRealTimeOfPaliaDay', () => {
+  it('is the inverse of getPaliaTime', () => {
+    const { paliaDay } = getPaliaTime(DST_START);
+    expect(getRealTimeOfPaliaDay(paliaDay)).toBe(DST_START);
+    expect(getRealTimeOfPaliaDay(paliaDay, 6)).toBe(DST_START + 6 * PALIA_HOUR);
+    expect(getRealTimeOfPaliaDay(paliaDay, 6.5)).toBe(DST_START + 6.5 * PALIA_HOUR);
+  });
+
+  it('gives the week start for its first day', () => {
+    expect(getRealTimeOfPaliaDay(getPaliaTime(WEEK_START).paliaDay)).toBe(WEEK_START);
+  });
+});
+
+describe('getNextPaliaDayStart', () => {
+  it('returns the next Palia midnight', () => {
+    expect(getNextPaliaDayStart(WEEK_START - 1)).toBe(WEEK_START);
+    expect(getNextPaliaDayStart(WEEK_START)).toBe(WEEK_START + HOUR);
+  });
+
+  it('stays one real hour apart across daylight saving changes', () => {
+    expect(getNextPaliaDayStart(DST_START - 1)).toBe(DST_START);
+    expect(getNextPaliaDayStart(DST_START)).toBe(DST_START + HOUR);
+    expect(getNextPaliaDayStart(DST_END + 1)).toBe(DST_END + HOUR);
+  });
+});
+
+describe('getNextPaliaHour', () => {
+  it('returns today when the hour is still ahead', () => {
+    expect(getNextPaliaHour(WEEK_START, 6)).toBe(WEEK_START + 6 * PALIA_HOUR);
+  });
+
+  it('returns tomorrow once the hour has been reached', () => {
+    const resetTime = WEEK_START + 6 * PALIA_HOUR;
+    expect(getNextPaliaHour(resetTime, 6)).toBe(resetTime + HOUR);
+  });
+
+  it('crosses the week rollover', () => {
+    expect(getNextPaliaHour(WEEK_START - PALIA_HOUR, 6)).toBe(WEEK_START + 6 * PALIA_HOUR);
+    expect(getPaliaTime(getNextPaliaHour(WEEK_START - PALIA_HOUR, 6)).weekIdentifier).toBe('week-2850');
+  });
+
+  it('crosses the start of daylight saving time', () => {
+    expect(getNextPaliaHour(DST_START - PALIA_HOUR, 6)).toBe(DST_START + 6 * PALIA_HOUR);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Palia clock conversions
+ *
+ * One Palia day lasts one real-world hour, so Palia time runs 24x faster than real time.
+ * The clock is anchored to Pacific Standard Time (a fixed UTC-8 offset), so it does not
+ * shift when daylight saving time starts or ends. All functions are pure: they take real
+ * timestamps in milliseconds since the Unix epoch and never read the system clock.
+ */
+
+/** Offset from the Unix epoch to the PST-based Palia time base: 8 hours PST + 3 days (epoch was a Thursday) */
+const PST_UTC_SUNDAY_OFFSET = 60 * 60 * (8 + 3 * 24);
+
+/** Real seconds in one Palia day */
+const REAL_SECONDS_PER_PALIA_DAY = 60 * 60;
+
+/** Palia seconds in one Palia day */
+const PALIA_SECONDS_PER_DAY = 24 * 60 * 60;
+
+/** Palia weeks start Sunday 9 PM PST */
+const WEEK_START_OFFSET = 21 * 60 * 60;
+
+/** Real seconds in one Palia week (seven real days) */
+const REAL_SECONDS_PER_WEEK = 7 * 24 * 60 * 60;
+
+/**
+ * Snapshot of the Palia clock at a real-world moment
+ */
+export interface PaliaTime {
+  /** Palia clock time (e.g., "06:30") */
+  clockTime: string;
+  /** Part of the Palia day (Morning, Day, Evening, Night) */
+  partOfDay: string;
+  /** Position within the week (e.g., "Day 3 Cycle 07") */
+  dayText: string;
+  /** Clock dial rotation in degrees */
+  dialRotation: number;
+  /** Palia hour (0-23) */
+  hours: number;
+  /** Palia minute (0-59) */
+  minutes: number;
+  /** Identifier of the current Palia week (e.g., "week-2850") */
+  weekIdentifier: string;
+  /** Real day of the Palia week (0-6) */
+  dayOfWeek: number;
+  /** Identifier of the current Palia day (e.g., "cycle-478912") */
+  cycleId: string;
+  /** Absolute Palia day number */
+  paliaDay: number;
+}
+
+/**
+ * Real seconds since the PST-based Palia time base
+ */
+function toRealTimePST(timestamp: number): number {
+  return timestamp / 1000 - PST_UTC_SUNDAY_OFFSET;
+}
+
+/**
+ * Part of the Palia day for an hour of the Palia clock
+ */
+export function getPartOfDay(hours: number): string {
+  if (hours >= 21 || hours < 3) return 'Night'; // 21:00 - 03:00
+  if (hours >= 18) return 'Evening'; // 18:00 - 21:00
+  if (hours >= 6) return 'Day'; // 06:00 - 18:00
+  return 'Morning'; // 03:00 - 06:00
+}
+
+/**
+ * Absolute Palia day number for a real-world timestamp
+ */
+export function getPaliaDay(timestamp: number): number {
+  return Math.floor(toRealTimePST(timestamp) / REAL_SECONDS_PER_PALIA_DAY);
+}
+
+/**
+ * Reads the Palia clock at a real-world timestamp
+ * @param timestamp - Real time in milliseconds since the Unix epoch
+ * @returns Clock time, day/week identifiers and dial position
+ */
+export function getPaliaTime(timestamp: number): PaliaTime {
+  const realTimePST = toRealTimePST(timestamp);
+
+  // Palia seconds elapsed in the current Palia day
+  const palianTimeOfDay = (realTimePST * 24) % PALIA_SECONDS_PER_DAY;
+
+  const palianMinutes = Math.floor(palianTimeOfDay / 60);
+  const hours = Math.floor(palianMinutes / 60);
+  const minutes = palianMinutes % 60;
+  const clockTime = `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+
+  // Position within the week, which starts Sunday 9 PM PST
+  const timeSincePSTWeek = (realTimePST - WEEK_START_OFFSET) % REAL_SECONDS_PER_WEEK;
+  const palianCycleThisWeek = timeSincePSTWeek / REAL_SECONDS_PER_PALIA_DAY;
+  const palianDayThisWeek = Math.floor(palianCycleThisWeek / 24);
+  const palianCycleThisDay = Math.floor(palianCycleThisWeek) % 24;
+
+  const dayText = `Day ${palianDayThisWeek + 1} Cycle ${(palianCycleThisDay + 1).toString().padStart(2, '0')}`;
+
+  const weekNumber = Math.floor((realTimePST - WEEK_START_OFFSET) / REAL_SECONDS_PER_WEEK);
+  const paliaDay = getPaliaDay(timestamp);
+
+  return {
+    clockTime,
+    partOfDay: getPartOfDay(hours),
+    dayText,
+    // 0:00 points down (90°), 6 AM left (180°), noon up (270°), 6 PM right (0°)
+    dialRotation: (360 * palianTimeOfDay) / PALIA_SECONDS_PER_DAY + 90,
+    hours,
+    minutes,
+    weekIdentifier: `week-${weekNumber}`,
+    dayOfWeek: palianDayThisWeek,
+    cycleId: `cycle-${paliaDay}`,
+    paliaDay
+  };
+}
+
+/**
+ * Reads the Palia clock shifted back by the daily reset hour
+ * The shifted day only changes when the reset hour passes, so comparing its dayText with the
+ * day of the last reset tells whether a reset is due, even if the app was closed at the reset.
+ * @param timestamp - Real time in milliseconds since the Unix epoch
+ * @param resetHour - Palia hour of the daily watering reset (e.g., 6)
+ * @returns Clock reading in which the day starts at the reset hour
+ */
+export function getPaliaTimeSinceReset(timestamp: number, resetHour: number): PaliaTime {
+  const realMsPerPaliaHour = (REAL_SECONDS_PER_PALIA_DAY / 24) * 1000;
+  return getPaliaTime(timestamp - resetHour * realMsPerPaliaHour);
+}
+
+/**
+ * Real-world time at which a Palia day reaches a given clock time
+ * @param paliaDay - Absolute Palia day number
+ * @param hour - Palia hour of that day (fractions allowed, e.g. 6.5 for 06:30)
+ * @returns Real time in milliseconds since the Unix epoch
+ */
+export function getRealTimeOfPaliaDay(paliaDay: number, hour = 0): number {
+  const realSeconds = paliaDay * REAL_SECONDS_PER_PALIA_DAY + (hour / 24) * REAL_SECONDS_PER_PALIA_DAY;
+  return (realSeconds + PST_UTC_SUNDAY_OFFSET) * 1000;
+}
+
+/**
+ * Real-world time at which the next Palia day starts (Palia midnight)
+ * @param timestamp - Real time in milliseconds since the Unix epoch
+ */
+export function getNextPaliaDayStart(timestamp: number): number {
+  return getRealTimeOfPaliaDay(getPaliaDay(timestamp) + 1);
+}
+
+/**
+ * Real-world time at which the Palia clock next shows a given hour, strictly after the timestamp
+ * @param timestamp - Real time in milliseconds since the Unix epoch
+ * @param hour - Palia hour (e.g., 6 for the 6 AM watering reset)
+ */
+export function getNextPaliaHour(timestamp: number, hour: number): number {
+  const today = getRealTimeOfPaliaDay(getPaliaDay(timestamp), hour);
+  return today > timestamp ? today : getRealTimeOfPaliaDay(getPaliaDay(timestamp) + 1, hour);
+}
@@ -0,0 +1,274 @@
+import { LayoutError, ParsedGardenData } from '../types/layout';
+import {
+  SaveCodeError,
+  parseGridData,
+  parsePaliaPlannerUrl,
+  parsePlannerSettings,
+  serializeGardenData
+} from './plannerService';
+
+const EMPTY_PLOT = 'NNNNNNNNN';
+
+/** Save codes as the Palia Garden Planner writes them */
+const PLANNER_SAVE_CODES = {
+  singleCrops: `v0.4_D-111-111-111_CR-TTTTTTTTT-PPPPPPPPP-AAAAAAAAA-${Array(6).fill(EMPTY_PLOT).join('-')}`,
+  fertilizersAndSettings:
+    'v0.4_D-111-111-111_CR-T.ST.ST.SCr.HCr.HCr.HCo.QCo.QCo.Q-A.WA.WA.WA.WA.WA.WA.WA.WA.W-BBNBBNRRR-' +
+    `PmPmNPmPmNWWW-BtBtNBtBtNCbCbCb-SSNSSNBkBkBk-${Array(3).fill(EMPTY_PLOT).join('-')}_D7L0`,
+  partialGarden: 'v0.4_D-110-011_CR-CCCOOOTTT-CCCOOOTTT-RRRRRRRRR-W.YW.YW.YNNNNNN',
+  /** Written by hand in the v0.4 layout; no planner v0.3 code is available */
+  withoutSettings: 'v0.3_D-11_CR-TTTPPPCCC-AAAAAAAAA',
+  unknownSettings: 'v0.4_D-1_CR-TTTTTTTTT_D7X9L25'
+};
+
+describe('serializeGardenData', () => {
+  it.each(Object.entries(PLANNER_SAVE_CODES))('re-encodes the %s save code unchanged', async (_, saveCode) => {
+    expect(serializeGardenData(await parseGridData(saveCode))).toBe(saveCode);
+  });
+
+  it('keeps crop and fertilizer codes it does not know', async () => {
+    const saveCode = 'v0.4_D-1_CR-TZzT.XN.NT.WNNNN';
+    const gardenData = await parseGridData(saveCode);
+
+    expect(gardenData.tiles[0][1].cropType).toBeNull();
+    expect(gardenData.tiles[0][2].fertilizerType).toBeNull();
+    expect(serializeGardenData(gardenData)).toBe(saveCode);
+  });
+
+  it('encodes edited tiles from their new crop and fertilizer', async () => {
+    const gardenData = await parseGridData('v0.4_D-1_CR-TZzT.XN.NT.WNNNN');
+    gardenData.tiles[0][1] = { ...gardenData.tiles[0][1], cropType: 'Potato' };
+    gardenData.tiles[0][2] = { ...gardenData.tiles[0][2], fertilizerType: 'Quality Up' };
+    gardenData.tiles[1][1] = { ...gardenData.tiles[1][1], fertilizerType: null };
+
+    expect(serializeGardenData(gardenData)).toBe('v0.4_D-1_CR-TPT.QN.NTNNNN');
+  });
+});
+
+describe('parsePlannerSettings', () => {
+  it('decodes the settings of the planner example in docs/GARDEN_PLANNER_INTEGRATION.md', () => {
+    expect(parsePlannerSettings('D7L0')).toEqual({ raw: 'D7L0', harvestDays: 7, gardeningLevel: 0, unknownTokens: [] });
+  });
+
+  it('keeps tokens it does not know', async () => {
+    const gardenData = await parseGridData(PLANNER_SAVE_CODES.unknownSettings);
+
+    expect(gardenData.plannerSettings).toEqual({ raw: 'D7X9L25', harvestDays: 7, gardeningLevel: 25, unknownTokens: ['X9'] });
+    expect(gardenData.diagnostics?.warnings).toEqual([
+      { severity: 'warning', section: 'settings', message: "Unrecognised setting 'X9' was ignored" }
+    ]);
+  });
+
+  it('keeps a section that does not split into tokens whole', () => {
+    expect(parsePlannerSettings('S-D7')).toEqual({ raw: 'S-D7', unknownTokens: ['S-D7'] });
+  });
+});
+
+describe('v0.3 save codes', () => {
+  it('parse like v0.4 without settings', async () => {
+    const gardenData = await parseGridData(PLANNER_SAVE_CODES.withoutSettings);
+
+    expect(gardenData.version).toBe('v0.3');
+    expect(gardenData.cropSummary.cropBreakdown).toEqual({
+      Tomato: expect.objectContaining({ total: 3 }),
+      Potato: expect.objectContaining({ total: 3 }),
+      Carrot: expect.objectContaining({ total: 3 }),
+      Apple: expect.objectContaining({ total: 1 })
+    });
+    expect(gardenData.plannerSettings).toBeUndefined();
+    expect(gardenData.diagnostics).toEqual({ errors: [], warnings: [] });
+  });
+
+  it('report a trailing section instead of reading it as settings', async () => {
+    const gardenData = await parseGridData(`${PLANNER_SAVE_CODES.withoutSettings}_D7L0`);
+
+    expect(gardenData.plannerSettings).toBeUndefined();
+    expect(gardenData.diagnostics?.warnings).toEqual([
+      { severity: 'warning', section: 'settings', message: "v0.3 save codes have no settings section; 'D7L0' was ignored" }
+    ]);
+  });
+});
+
+describe('parsePaliaPlannerUrl', () => {
+  it('reads plants from a planner URL through the version parsers', async () => {
+    const url = `https://palia-garden-planner.vercel.app/?layout=${PLANNER_SAVE_CODES.withoutSettings}`;
+    const names = (await parsePaliaPlannerUrl(url)).map(plant => plant.name).sort();
+
+    expect(names).toEqual(['Apple', 'Carrot', 'Carrot', 'Carrot', 'Potato', 'Potato', 'Potato', 'Tomato', 'Tomato', 'Tomato']);
+  });
+
+  it('rejects versions without a parser', async () => {
+    await expect(parsePaliaPlannerUrl('v0.9_D-1_CR-TTTTTTTTT')).rejects.toMatchObject({
+      name: 'SaveCodeError',
+      type: LayoutError.INVALID_SAVE_CODE
+    });
+  });
+
+  it('rejects codes whose crops section has the wrong prefix', async () => {
+    await expect(parsePaliaPlannerUrl('v0.4_D-1_XX-TTTTTTTTT')).rejects.toBeInstanceOf(SaveCodeError);
+  });
+});
+
+describe('plant footprints', () => {
+  /** cropId of every tile, row by row ('-' for tiles without a plant) */
+  const cropIdGrid = (gardenData: ParsedGardenData) =>
+    gardenData.tiles.map(row => row.map(tile => tile.cropId ?? '-'));
+
+  it('groups a 2x2 bush into one plant', async () => {
+    const gardenData = await parseGridData('v0.4_D-1_CR-BBNBBNNNN');
+
+    expect(cropIdGrid(gardenData)).toEqual([
+      ['plant-0-0', 'plant-0-0', '-'],
+      ['plant-0-0', 'plant-0-0', '-'],
+      ['-', '-', '-']
+    ]);
+    expect(gardenData.cropSummary.cropBreakdown.Blueberry.total).toBe(1);
+    expect(gardenData.diagnostics).toEqual({ errors: [], warnings: [] });
+  });
+
+  it('groups a 3x3 tree into one plant', async () => {
+    const gardenData = await parseGridData('v0.4_D-1_CR-AAAAAAAAA');
+
+    expect(cropIdGrid(gardenData)).toEqual(Array(3).fill(Array(3).fill('plant-0-0')));
+    expect(gardenData.cropSummary.cropBreakdown.Apple.total).toBe(1);
+  });
+
+  it('groups bushes that cross a plot boundary', async () => {
+    const gardenData = await parseGridData('v0.4_D-11_CR-BBBBBBNNN-BNNBNNNNN');
+
+    expect(cropIdGrid(gardenData).slice(0, 2)).toEqual([
+      ['plant-0-0', 'plant-0-0', 'plant-0-2', 'plant-0-2', '-', '-'],
+      ['plant-0-0', 'plant-0-0', 'plant-0-2', 'plant-0-2', '-', '-']
+    ]);
+    expect(gardenData.cropSummary.cropBreakdown.Blueberry.total).toBe(2);
+    expect(gardenData.diagnostics?.warnings).toEqual([]);
+  });
+
+  it('does not count a partial footprint and warns about each of its tiles', async () => {
+    const gardenData = await parseGridData('v0.4_D-1_CR-BBNBNNNNN');
+
+    expect(cropIdGrid(gardenData).every(row => row.every(cropId => cropId === '-'))).toBe(true);
+    expect(gardenData.cropSummary.cropBreakdown.Blueberry).toBeUndefined();
+    expect(gardenData.diagnostics?.warnings).toEqual([1, 2, 4].map(tile => ({
+      severity: 'warning',
+      section: 'crops',
+      plotIndex: 0,
+      tileIndex: tile - 1,
+      message: `Plot 1, tile ${tile}: Blueberry does not form a complete 2x2 footprint and was not counted`
+    })));
+  });
+
+  it('warns about tiles left over next to a complete footprint', async () => {
+    const gardenData = await parseGridData('v0.4_D-1_CR-BBBBBNNNN');
+
+    expect(cropIdGrid(gardenData)[0]).toEqual(['plant-0-0', 'plant-0-0', '-']);
+    expect(gardenData.cropSummary.cropBreakdown.Blueberry.total).toBe(1);
+    expect(gardenData.diagnostics?.warnings).toEqual([{
+      severity: 'warning',
+      section: 'crops',
+      plotIndex: 0,
+      tileIndex: 2,
+      message: 'Plot 1, tile 3: Blueberry does not form a complete 2x2 footprint and was not counted'
+    }]);
+  });
+
+  it('does not count a partial tree', async () => {
+    const gardenData = await parseGridData('v0.4_D-1_CR-AAAAAANNN');
+
+    expect(gardenData.cropSummary.totalPlants).toBe(0);
+    expect(gardenData.diagnostics?.warnings.map(warning => warning.tileIndex)).toEqual([0, 1, 2, 3, 4, 5]);
+  });
+});
+
+describe('parse diagnostics', () => {
+  it('reports an unknown crop code as an error and leaves the tile empty', async () => {
+    const gardenData = await parseGridData('v0.4_D-11_CR-TTTTTTTTT-TZzTTTTTTT');
+
+    expect(gardenData.tiles[0][4].cropType).toBeNull();
+    expect(gardenData.diagnostics).toEqual({
+      errors: [{
+        severity: 'error',
+        section: 'crops',
+        plotIndex: 1,
+        tileIndex: 1,
+        message: "Plot 2, tile 2: unknown crop code 'Zz'"
+      }],
+      warnings: []
+    });
+  });
+
+  it('reports an unknown fertilizer code as a warning and keeps the crop', async () => {
+    const gardenData = await parseGridData('v0.4_D-1_CR-TTT.XTTTTTT');
+
+    expect(gardenData.tiles[0][2]).toEqual(expect.objectContaining({ cropType: 'Tomato', fertilizerType: null }));
+    expect(gardenData.diagnostics).toEqual({
+      errors: [],
+      warnings: [{
+        severity: 'warning',
+        section: 'crops',
+        plotIndex: 0,
+        tileIndex: 2,
+        message: "Plot 1, tile 3: unknown fertilizer code 'X' was ignored"
+      }]
+    });
+  });
+
+  it('reports a plot with the wrong number of tiles and leaves it empty', async () => {
+    const gardenData = await parseGridData('v0.4_D-11_CR-TTTTTTTT-PPPPPPPPP');
+
+    expect(gardenData.tiles.every(row => row.slice(0, 3).every(tile => tile.cropType === null))).toBe(true);
+    expect(gardenData.cropSummary.cropBreakdown).toEqual({ Potato: expect.objectContaining({ total: 9 }) });
+    expect(gardenData.diagnostics?.errors).toEqual([{
+      severity: 'error',
+      section: 'crops',
+      plotIndex: 0,
+      message: 'Plot 1 has 8 tiles, expected 9; the plot was left empty'
+    }]);
+  });
+
+  it('reports a crops section with fewer plots than are active', async () => {
+    const gardenData = await parseGridData('v0.4_D-11_CR-TTTTTTTTT');
+
+    expect(gardenData.diagnostics?.errors).toEqual([{
+      severity: 'error',
+      section: 'crops',
+      plotIndex: 1,
+      message: 'Crops section has 1 plots but 2 are active; the missing plots were left empty'
+    }]);
+  });
+
+  it('reports a crops section with more plots than are active', async () => {
+    const gardenData = await parseGridData('v0.4_D-10_CR-TTTTTTTTT-PPPPPPPPP');
+
+    expect(gardenData.cropSummary.cropBreakdown.Potato).toBeUndefined();
+    expect(gardenData.diagnostics?.warnings).toEqual([{
+      severity: 'warning',
+      section: 'crops',
+      plotIndex: 1,
+      message: 'Crops section has 2 plots but only 1 are active; the extra plots were ignored'
+    }]);
+  });
+
+  it('reports malformed plot rows in the dimensions section', async () => {
+    const gardenData = await parseGridData('v0.4_D-11-1x_CR-TTTTTTTTT-TTTTTTTTT-TTTTTTTTT');
+
+    expect(gardenData.activePlots).toEqual([[true, true], [true, false]]);
+    expect(gardenData.diagnostics?.warnings).toEqual([{
+      severity: 'warning',
+      section: 'dimensions',
+      message: 'Plot row 2 ("1x") contains characters other than 0 and 1; they are treated as inactive'
+    }]);
+  });
+
+  it('throws a SaveCodeError when the dimensions section has no plot rows', async () => {
+    await expect(parseGridData('v0.4_D_CR-TTTTTTTTT')).rejects.toMatchObject({
+      name: 'SaveCodeError',
+      type: LayoutError.INVALID_SAVE_CODE,
+      message: 'Invalid save code format - missing plot dimensions.'
+    });
+  });
+
+  it('throws a SaveCodeError when the code has too few sections', async () => {
+    await expect(parseGridData('v0.4_D-1')).rejects.toBeInstanceOf(SaveCodeError);
+  });
+});
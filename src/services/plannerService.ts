@@ -1,33 +1,24 @@
 import { v4 as uuidv4 } from 'uuid';
+import { CropCatalog } from './cropCatalog';
 import { Plant } from '../types/index';
 import {
   ParsedGardenData,
   GridTile,
-  CropSummary
+  CropSummary,
+  LayoutError,
+  PlannerSettings,
+  ParseDiagnostic,
+  ParseDiagnostics
 } from '../types/layout';
 
 /**
- * Correct crop code mappings from the Palia Garden Planner v0.4
- * Based on palia-tools/assets/scripts/garden-planner/enums/cropCode.ts
+ * Crop code mappings from the Palia Garden Planner v0.4, derived from the crop catalog
+ * 'N' marks an empty tile
  */
-const CROP_MAPPINGS: { [key: string]: string } = {
-  'N': 'None',
-  'T': 'Tomato',
-  'P': 'Potato',
-  'R': 'Rice',
-  'W': 'Wheat',
-  'C': 'Carrot',
-  'O': 'Onion',
-  'Co': 'Cotton',
-  'B': 'Blueberry',
-  'A': 'Apple',
-  'Cr': 'Corn',
-  'S': 'Spicy Pepper',
-  'Cb': 'Napa Cabbage',
-  'Bk': 'Bok Choy',
-  'Pm': 'Rockhopper Pumpkin',
-  'Bt': 'Batterfly Bean'
-};
+const CROP_MAPPINGS: { [key: string]: string } = CropCatalog.getAll().reduce(
+  (mappings, crop) => (crop.plannerCode ? { ...mappings, [crop.plannerCode]: crop.name } : mappings),
+  { 'N': 'None' } as { [key: string]: string }
+);
 
 /**
  * Fertilizer code mappings from the Palia Garden Planner
@@ -42,414 +33,635 @@ const FERTILIZER_MAPPINGS: { [key: string]: string } = {
 };
 
 /**
- * Crop size definitions for proper counting
- */
-const CROP_SIZES: { [key: string]: { size: 'single' | 'bush' | 'tree', tiles: number } } = {
-  'Tomato': { size: 'single', tiles: 1 },
-  'Potato': { size: 'single', tiles: 1 },
-  'Rice': { size: 'single', tiles: 1 },
-  'Wheat': { size: 'single', tiles: 1 },
-  'Carrot': { size: 'single', tiles: 1 },
-  'Onion': { size: 'single', tiles: 1 },
-  'Cotton': { size: 'single', tiles: 1 },
-  'Corn': { size: 'single', tiles: 1 },
-  'Napa Cabbage': { size: 'single', tiles: 1 },
-  'Bok Choy': { size: 'single', tiles: 1 },
-  'Blueberry': { size: 'bush', tiles: 4 },
-  'Spicy Pepper': { size: 'bush', tiles: 4 },
-  'Batterfly Bean': { size: 'bush', tiles: 4 },
-  'Rockhopper Pumpkin': { size: 'bush', tiles: 4 },
-  'Apple': { size: 'tree', tiles: 9 }
-};
+ * Builds the reverse lookup (name -> code) for a code mapping table
+ */
+function invertMappings(mappings: { [key: string]: string }): { [key: string]: string } {
+  const inverted: { [key: string]: string } = {};
+  for (const [code, name] of Object.entries(mappings)) {
+    inverted[name] = code;
+  }
+  return inverted;
+}
 
 /**
- * Parses crop codes from a plot using the exact garden planner regex
- * @param plotCropString - String containing crop codes for one plot (e.g., "OOCrCrTCoCoPO")
- * @returns Array of crop names found in the plot
+ * Reverse fertilizer lookup used when encoding save codes
+ * (crops are encoded through the catalog so aliases resolve too)
  */
-function parseCropCodesFromPlot(plotCropString: string): string[] {
-  console.log(`🔍 Parsing plot: "${plotCropString}"`);
-  
-  // Use the exact regex from garden.ts: /[A-Z](?:\.[A-Z]|[^A-Z])*/g
-  const regex = /[A-Z](?:\.[A-Z]|[^A-Z])*/g;
-  const cropCodes = plotCropString.match(regex);
-  
-  if (!cropCodes) {
-    console.log(`⚠️ No crop codes found in plot: "${plotCropString}"`);
-    return [];
-  }
-  
-  console.log(`🔍 Found ${cropCodes.length} crop codes:`, cropCodes);
-  
-  const crops: string[] = [];
+const FERTILIZER_CODES = invertMappings(FERTILIZER_MAPPINGS);
+
+/**
+ * Host of the Palia Garden Planner, used for URL parsing and generation
+ */
+const PLANNER_HOSTNAME = 'palia-garden-planner.vercel.app';
+
+/**
+ * Parses garden save code or URL and extracts plant data
+ * @param input - Either a direct save code or palia-garden-planner.vercel.app URL
+ * @returns Promise<Plant[]> - Array of Plant objects parsed from the input
+ * @throws SaveCodeError if the code is malformed or its version is not supported
+ */
+export async function parsePaliaPlannerUrl(input: string): Promise<Plant[]> {
+  const gardenData = await parseGridData(input);
+  const plants: Plant[] = [];
   
-  // Process each tile in the plot (should be 9 tiles per plot)
-  for (let tileIndex = 0; tileIndex < cropCodes.length; tileIndex++) {
-    const cropCodeWithFert = cropCodes[tileIndex];
-    const [cropCode, fertiliserCode] = cropCodeWithFert.split('.');
-    
-    console.log(`  🔸 Tile ${tileIndex + 1}: "${cropCodeWithFert}" -> crop: "${cropCode}", fert: "${fertiliserCode || 'none'}"`);
-    
-    if (CROP_MAPPINGS[cropCode]) {
-      const cropName = CROP_MAPPINGS[cropCode];
-      if (cropName !== 'None') {
-        crops.push(cropName);
-        console.log(`    ✅ Added ${cropName}`);
-      }
-    } else {
-      console.log(`    ❌ Unknown crop code: "${cropCode}"`);
+  // One plant per complete footprint, so an Apple plot (AAAAAAAAA) is a single plant
+  for (const [cropType, summary] of Object.entries(gardenData.cropSummary.cropBreakdown)) {
+    for (let i = 0; i < summary.total; i++) {
+      plants.push({
+        id: uuidv4(),
+        name: cropType,
+        needsWater: false
+      });
     }
   }
   
-  return crops;
+  return plants;
 }
 
 /**
- * Counts crops properly, handling multi-tile crops (bushes and trees)
- * @param allCropTiles - Array of all crop names from individual tiles
- * @returns Object with proper crop counts
+ * Raw sections of a save code: v{version}_{dimensionInfo}_{cropInfo}[_{settingsInfo}]
  */
-function countCropsCorrectly(allCropTiles: string[]): { [key: string]: number } {
-  console.log(`📊 Counting crops from ${allCropTiles.length} tiles...`);
-  
-  const tileCounts: { [key: string]: number } = {};
-  
-  // Count all tiles first
-  for (const cropName of allCropTiles) {
-    tileCounts[cropName] = (tileCounts[cropName] || 0) + 1;
-  }
-  
-  console.log(`🔢 Tile counts:`, tileCounts);
-  
-  // Convert tile counts to plant counts based on crop size
-  const plantCounts: { [key: string]: number } = {};
-  
-  for (const [cropName, tileCount] of Object.entries(tileCounts)) {
-    const cropSize = CROP_SIZES[cropName];
-    if (cropSize) {
-      const plantCount = Math.floor(tileCount / cropSize.tiles);
-      if (plantCount > 0) {
-        plantCounts[cropName] = plantCount;
-        console.log(`🌱 ${cropName}: ${tileCount} tiles ÷ ${cropSize.tiles} tiles/plant = ${plantCount} plants`);
-      }
-    } else {
-      console.log(`⚠️ Unknown crop size for: ${cropName}`);
-      plantCounts[cropName] = tileCount; // Fallback to tile count
-    }
+export interface SaveCodeSections {
+  /** Complete save code the sections were split from */
+  saveCode: string;
+  /** Version section (e.g., "v0.4") */
+  version: string;
+  /** Plot mask section (e.g., "D-111-111-111") */
+  dimensionInfo: string;
+  /** Crops section (e.g., "CR-TTTTTTTTT-...") */
+  cropInfo: string;
+  /** Everything after the crops section, kept verbatim */
+  settingsInfo?: string;
+}
+
+/**
+ * Parser for one save code version
+ */
+export type SaveCodeParser = (sections: SaveCodeSections) => ParsedGardenData;
+
+/**
+ * Grid encoding used by a save code version
+ */
+interface SaveCodeFormat {
+  /** Number of tiles along each side of a (square) plot */
+  plotSize: number;
+  /** Prefix of the crops section */
+  cropSectionPrefix: string;
+  /** Matches one tile code: a crop code with an optional fertilizer suffix */
+  tileCodePattern: RegExp;
+  /** Whether the version carries a settings section */
+  hasSettings: boolean;
+}
+
+/**
+ * Planner v0.4 format, using the exact tile regex from garden.ts
+ */
+const V04_FORMAT: SaveCodeFormat = {
+  plotSize: 3,
+  cropSectionPrefix: 'CR-',
+  tileCodePattern: /[A-Z](?:\.[A-Z]|[^A-Z])*/g,
+  hasSettings: true
+};
+
+/**
+ * Planner v0.3 format: same plots and crop codes as v0.4, without the settings section
+ * No v0.3 save code from the planner is at hand to check this against; a v0.3 code that
+ * differs in other ways is reported in the parse diagnostics rather than misread silently.
+ */
+const V03_FORMAT: SaveCodeFormat = {
+  ...V04_FORMAT,
+  hasSettings: false
+};
+
+/**
+ * Grid formats by version section, used by the built-in parsers and the encoder
+ */
+const SAVE_CODE_FORMATS: { [version: string]: SaveCodeFormat } = {
+  'v0.3': V03_FORMAT,
+  'v0.4': V04_FORMAT
+};
+
+/**
+ * Registered save code parsers keyed by version section
+ */
+const SAVE_CODE_PARSERS: { [version: string]: SaveCodeParser } = {
+  'v0.3': sections => parseGridSections(sections, V03_FORMAT),
+  'v0.4': sections => parseGridSections(sections, V04_FORMAT)
+};
+
+/**
+ * Error raised when a save code cannot be parsed or encoded
+ */
+export class SaveCodeError extends Error {
+  readonly type: LayoutError;
+
+  constructor(message: string, type: LayoutError = LayoutError.INVALID_SAVE_CODE) {
+    super(message);
+    this.name = 'SaveCodeError';
+    this.type = type;
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, SaveCodeError.prototype);
   }
-  
-  return plantCounts;
 }
 
 /**
- * Parses garden save code or URL and extracts plant data
+ * Registers (or replaces) the parser for a save code version
+ * @param version - Version section the parser handles (e.g., "v0.5")
+ * @param parser - Function turning the split sections into garden data
+ */
+export function registerSaveCodeParser(version: string, parser: SaveCodeParser): void {
+  SAVE_CODE_PARSERS[version] = parser;
+}
+
+/**
+ * Lists the save code versions that can currently be parsed
+ */
+export function getSupportedSaveCodeVersions(): string[] {
+  return Object.keys(SAVE_CODE_PARSERS);
+}
+
+/**
+ * Extracts the save code from a planner URL, or returns direct input unchanged
  * @param input - Either a direct save code or palia-garden-planner.vercel.app URL
- * @returns Promise<Plant[]> - Array of Plant objects parsed from the input
- * @throws Error if input is invalid or parsing fails
+ * @returns The raw save code
+ * @throws Error if the URL is not a valid planner URL
  */
-export async function parsePaliaPlannerUrl(input: string): Promise<Plant[]> {
-  console.log(`🚀 Starting to parse input: ${input.substring(0, 100)}...`);
-  
-  let saveCode = '';
-  
-  // Determine if input is URL or direct save code
-  if (input.startsWith('http')) {
-    try {
-      const urlObj = new URL(input);
-      
-      // Check if it's a palia-garden-planner.vercel.app URL
-      if (urlObj.hostname !== 'palia-garden-planner.vercel.app') {
-        throw new Error('Invalid Palia Planner URL.');
-      }
-      
-      // Extract layout parameter
-      const layoutParam = urlObj.searchParams.get('layout');
-      if (!layoutParam) {
-        throw new Error('Invalid Palia Planner URL - no layout parameter found.');
-      }
-      
-      saveCode = layoutParam;
-      console.log(`📋 Extracted save code from URL: ${saveCode}`);
-    } catch (error) {
-      if (error instanceof Error && error.message.includes('Invalid Palia Planner URL')) {
-        throw error;
-      }
-      throw new Error('Invalid URL format.');
-    }
-  } else {
-    // Direct save code
-    saveCode = input;
-    console.log(`📋 Using direct save code: ${saveCode}`);
+function extractSaveCode(input: string): string {
+  if (!input.startsWith('http')) {
+    return input;
   }
-  
+
   try {
-    // Parse the save code format: v{version}_{dimensionInfo}_{cropInfo}_{settingsInfo}
-    const sections = saveCode.split('_');
-    console.log(`📊 Save code sections:`, sections);
+    const urlObj = new URL(input);
     
-    if (sections.length < 3) {
-      throw new Error('Invalid save code format - insufficient sections.');
+    if (urlObj.hostname !== PLANNER_HOSTNAME) {
+      throw new Error('Invalid Palia Planner URL.');
     }
     
-    const version = sections[0];
-    const dimensionInfo = sections[1];
-    const cropInfo = sections[2];
-    const settingsInfo = sections[3] || '';
-    
-    console.log(`📝 Version: ${version}`);
-    console.log(`📐 Dimensions: ${dimensionInfo}`);
-    console.log(`🌱 Crops: ${cropInfo}`);
-    console.log(`⚙️ Settings: ${settingsInfo}`);
-    
-    // Validate version
-    if (!version.startsWith('v')) {
-      throw new Error('Invalid save code format - missing version prefix.');
+    const layoutParam = urlObj.searchParams.get('layout');
+    if (!layoutParam) {
+      throw new Error('Invalid Palia Planner URL - no layout parameter found.');
     }
     
-    // Extract crop data
-    let cropsSection = '';
-    if (cropInfo.startsWith('CR-')) {
-      cropsSection = cropInfo.substring(3); // Remove 'CR-' prefix
-    } else {
-      throw new Error('Invalid save code format - crops section should start with CR-.');
-    }
-    
-    console.log(`🌾 Crops section after removing CR-: ${cropsSection}`);
-    
-    // Split crops section by dashes to get individual rows
-    const rows = cropsSection.split('-');
-    console.log(`📋 Crop rows:`, rows);
-    
-    const plants: Plant[] = [];
-    
-    // Collect all crop tiles first
-    const allCropTiles: string[] = [];
-    
-    // Process each row to extract crop codes
-    for (let rowIndex = 0; rowIndex < rows.length; rowIndex++) {
-      const row = rows[rowIndex];
-      console.log(`🔄 Processing plot ${rowIndex + 1}/${rows.length}: "${row}"`);
-      
-      // Process all plots, including Apple plots (AAAAAAAAA)
-      const plotCrops = parseCropCodesFromPlot(row);
-      allCropTiles.push(...plotCrops);
+    return layoutParam;
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Invalid Palia Planner URL')) {
+      throw error;
     }
+    throw new Error('Invalid URL format.');
+  }
+}
+
+/**
+ * Splits a save code into its sections
+ * @param saveCode - Raw save code
+ * @returns The version, dimension, crop and settings sections
+ * @throws SaveCodeError if the code has too few sections or no version prefix
+ */
+function splitSaveCode(saveCode: string): SaveCodeSections {
+  const sections = saveCode.split('_');
+  
+  if (sections.length < 3) {
+    throw new SaveCodeError('Invalid save code format - insufficient sections.');
+  }
+  
+  if (!sections[0].startsWith('v')) {
+    throw new SaveCodeError('Invalid save code format - missing version prefix.');
+  }
+  
+  return {
+    saveCode,
+    version: sections[0],
+    dimensionInfo: sections[1],
+    cropInfo: sections[2],
+    // Keep everything after the crops section verbatim so the code can be re-encoded
+    settingsInfo: sections.length > 3 ? sections.slice(3).join('_') : undefined
+  };
+}
+
+/**
+ * Parses garden save code and extracts complete garden layout data
+ * @param input - Either a direct save code or palia-garden-planner.vercel.app URL
+ * @returns Promise<ParsedGardenData> - Complete garden data structure
+ * @throws SaveCodeError if the code is malformed or its version is not supported
+ */
+export async function parseGridData(input: string): Promise<ParsedGardenData> {
+  try {
+    const sections = splitSaveCode(extractSaveCode(input));
     
-    // Count crops correctly (handling multi-tile crops)
-    const cropCounts = countCropsCorrectly(allCropTiles);
-    
-    console.log(`📊 Final crop counts:`, cropCounts);
-    
-    // Convert counts to Plant objects
-    for (const [cropName, count] of Object.entries(cropCounts)) {
-      for (let i = 0; i < count; i++) {
-        const plant: Plant = {
-          id: uuidv4(),
-          name: cropName,
-          needsWater: false
-        };
-        plants.push(plant);
-      }
+    const parser = SAVE_CODE_PARSERS[sections.version];
+    if (!parser) {
+      throw new SaveCodeError(
+        `Unsupported save code version "${sections.version}". Supported versions: ${getSupportedSaveCodeVersions().join(', ')}.`
+      );
     }
     
-    console.log(`✅ Successfully parsed ${plants.length} plants`);
-    return plants;
-    
+    return parser(sections);
   } catch (error) {
-    console.error(`❌ Parsing error:`, error);
     if (error instanceof Error) {
       throw error;
     }
-    throw new Error('Failed to parse garden data.');
+    throw new Error('Failed to parse garden grid data.');
   }
 }
 
 /**
- * Parses garden save code and extracts complete garden layout data
- * @param input - Either a direct save code or palia-garden-planner.vercel.app URL
- * @returns Promise<ParsedGardenData> - Complete garden data structure
- * @throws Error if input is invalid or parsing fails
+ * Decodes the settings section of a save code
+ * The section is a run of {letter}{number} tokens, as in the planner example "D7L0"
+ * (see docs/GARDEN_PLANNER_INTEGRATION.md): D{n} is the harvest calculator days and L{n} the
+ * gardening level. Other tokens are kept in unknownTokens rather than rejected; a section that
+ * does not split into such tokens is kept whole.
+ * @param raw - Settings section as found in the save code
+ * @returns Typed settings, including the raw string for re-encoding
  */
-export async function parseGridData(input: string): Promise<ParsedGardenData> {
-  console.log(`🔍 Parsing grid data from input: ${input.substring(0, 100)}...`);
-  
-  let saveCode = '';
-  
-  // Extract save code from URL or use direct input
-  if (input.startsWith('http')) {
-    try {
-      const urlObj = new URL(input);
-      
-      if (urlObj.hostname !== 'palia-garden-planner.vercel.app') {
-        throw new Error('Invalid Palia Planner URL.');
-      }
-      
-      const layoutParam = urlObj.searchParams.get('layout');
-      if (!layoutParam) {
-        throw new Error('Invalid Palia Planner URL - no layout parameter found.');
-      }
-      
-      saveCode = layoutParam;
-    } catch (error) {
-      if (error instanceof Error && error.message.includes('Invalid Palia Planner URL')) {
-        throw error;
-      }
-      throw new Error('Invalid URL format.');
+export function parsePlannerSettings(raw: string): PlannerSettings {
+  const settings: PlannerSettings = {
+    raw,
+    unknownTokens: []
+  };
+
+  if (!raw) {
+    return settings;
+  }
+
+  const tokens = raw.match(/[A-Za-z]+\d+/g) ?? [];
+  if (tokens.join('') !== raw) {
+    settings.unknownTokens = [raw];
+    return settings;
+  }
+
+  for (const token of tokens) {
+    const [, key, value] = token.match(/^([A-Za-z]+)(\d+)$/) as RegExpMatchArray;
+
+    if (key === 'D') {
+      settings.harvestDays = Number(value);
+    } else if (key === 'L') {
+      settings.gardeningLevel = Number(value);
+    } else {
+      settings.unknownTokens.push(token);
     }
+  }
+
+  return settings;
+}
+
+/**
+ * Records a parse diagnostic under its severity
+ */
+function addDiagnostic(diagnostics: ParseDiagnostics, diagnostic: ParseDiagnostic): void {
+  if (diagnostic.severity === 'error') {
+    diagnostics.errors.push(diagnostic);
   } else {
-    saveCode = input;
+    diagnostics.warnings.push(diagnostic);
   }
+}
+
+/**
+ * Parses the plot mask and crop sections of a save code using a grid format
+ * Problems that only affect part of the garden (a malformed plot, an unknown code) are
+ * reported in the returned diagnostics and the rest of the garden is still loaded.
+ * @param sections - Split save code sections
+ * @param format - Grid encoding of the save code version
+ * @returns Complete garden data structure
+ * @throws SaveCodeError if the plot mask or crops section is missing
+ */
+function parseGridSections(sections: SaveCodeSections, format: SaveCodeFormat): ParsedGardenData {
+  const { saveCode, version, dimensionInfo, cropInfo } = sections;
+  const settingsInfo = format.hasSettings ? sections.settingsInfo : undefined;
+  const plotSize = format.plotSize;
+  const diagnostics: ParseDiagnostics = { errors: [], warnings: [] };
   
-  try {
-    // Parse the save code format: v{version}_{dimensionInfo}_{cropInfo}_{settingsInfo}
-    const sections = saveCode.split('_');
-    
-    if (sections.length < 3) {
-      throw new Error('Invalid save code format - insufficient sections.');
+  if (!format.hasSettings && sections.settingsInfo !== undefined) {
+    addDiagnostic(diagnostics, {
+      severity: 'warning',
+      section: 'settings',
+      message: `${version} save codes have no settings section; '${sections.settingsInfo}' was ignored`
+    });
+  }
+  
+  // Parse dimensions - these represent plot dimensions, not tile dimensions
+  const plotDimensions = dimensionInfo.split('-').slice(1); // Remove the leading "D" marker
+  if (plotDimensions.length === 0) {
+    throw new SaveCodeError('Invalid save code format - missing plot dimensions.');
+  }
+  const plotRows = plotDimensions.length;
+  const plotColumns = plotDimensions[0].length;
+  
+  // Calculate actual tile dimensions
+  const tileRows = plotRows * plotSize;
+  const tileColumns = plotColumns * plotSize;
+  
+  // Parse active plots
+  const activePlots: boolean[][] = [];
+  for (let i = 0; i < plotRows; i++) {
+    if (plotDimensions[i].length !== plotColumns) {
+      addDiagnostic(diagnostics, {
+        severity: 'warning',
+        section: 'dimensions',
+        message: `Plot row ${i + 1} has ${plotDimensions[i].length} plots, expected ${plotColumns}`
+      });
     }
-    
-    const version = sections[0];
-    const dimensionInfo = sections[1];
-    const cropInfo = sections[2];
-    const settingsInfo = sections[3] || '';
-    
-    console.log(`📝 Version: ${version}`);
-    console.log(`📐 Dimensions: ${dimensionInfo}`);
-    console.log(`🌱 Crops: ${cropInfo}`);
-    
-    // Validate version
-    if (!version.startsWith('v')) {
-      throw new Error('Invalid save code format - missing version prefix.');
+    if (/[^01]/.test(plotDimensions[i])) {
+      addDiagnostic(diagnostics, {
+        severity: 'warning',
+        section: 'dimensions',
+        message: `Plot row ${i + 1} ("${plotDimensions[i]}") contains characters other than 0 and 1; they are treated as inactive`
+      });
     }
-    
-    // Parse dimensions - these represent plot dimensions, not tile dimensions
-    const plotDimensions = dimensionInfo.split('-').slice(1); // Remove first empty element
-    const plotRows = plotDimensions.length;
-    const plotColumns = plotDimensions[0].length;
-    
-    // Calculate actual tile dimensions (each plot is 3x3 tiles)
-    const tileRows = plotRows * 3;
-    const tileColumns = plotColumns * 3;
-    
-    console.log(`📐 Plot dimensions: ${plotRows}x${plotColumns} plots`);
-    console.log(`📐 Tile dimensions: ${tileRows}x${tileColumns} tiles`);
-    
-    // Parse active plots
-    const activePlots: boolean[][] = [];
-    for (let i = 0; i < plotRows; i++) {
-      activePlots[i] = [];
-      for (let j = 0; j < plotColumns; j++) {
-        activePlots[i][j] = plotDimensions[i][j] === '1';
-      }
+    activePlots[i] = [];
+    for (let j = 0; j < plotColumns; j++) {
+      activePlots[i][j] = plotDimensions[i][j] === '1';
     }
-    
-    // Extract and parse crop data
-    let cropsSection = '';
-    if (cropInfo.startsWith('CR-')) {
-      cropsSection = cropInfo.substring(3);
-    } else {
-      throw new Error('Invalid save code format - crops section should start with CR-.');
+  }
+  
+  // Extract and parse crop data
+  if (!cropInfo.startsWith(format.cropSectionPrefix)) {
+    throw new SaveCodeError(`Invalid save code format - crops section should start with ${format.cropSectionPrefix}.`);
+  }
+  const cropsSection = cropInfo.substring(format.cropSectionPrefix.length);
+  const cropRows = cropsSection ? cropsSection.split('-') : [];
+  
+  const activePlotCount = activePlots.reduce((count, row) => count + row.filter(Boolean).length, 0);
+  if (cropRows.length > activePlotCount) {
+    addDiagnostic(diagnostics, {
+      severity: 'warning',
+      section: 'crops',
+      plotIndex: activePlotCount,
+      message: `Crops section has ${cropRows.length} plots but only ${activePlotCount} are active; the extra plots were ignored`
+    });
+  } else if (cropRows.length < activePlotCount) {
+    addDiagnostic(diagnostics, {
+      severity: 'error',
+      section: 'crops',
+      plotIndex: cropRows.length,
+      message: `Crops section has ${cropRows.length} plots but ${activePlotCount} are active; the missing plots were left empty`
+    });
+  }
+  
+  // Initialize tiles grid with actual tile dimensions
+  const tiles: GridTile[][] = [];
+  for (let i = 0; i < tileRows; i++) {
+    tiles[i] = [];
+    for (let j = 0; j < tileColumns; j++) {
+      const plotRow = Math.floor(i / plotSize);
+      const plotCol = Math.floor(j / plotSize);
+      const isPlotActive = plotRow < plotRows && plotCol < plotColumns && activePlots[plotRow][plotCol];
+      
+      tiles[i][j] = {
+        row: i,
+        col: j,
+        cropType: null,
+        fertilizerType: null,
+        needsWater: false, // Don't set random watering status - only relevant for tracked crops
+        isActive: isPlotActive
+      };
     }
-    
-    const cropRows = cropsSection.split('-');
-    console.log(`🌾 Found ${cropRows.length} crop plot strings`);
-    
-    // Initialize tiles grid with actual tile dimensions
-    const tiles: GridTile[][] = [];
-    for (let i = 0; i < tileRows; i++) {
-      tiles[i] = [];
-      for (let j = 0; j < tileColumns; j++) {
-        const plotRow = Math.floor(i / 3);
-        const plotCol = Math.floor(j / 3);
-        const isPlotActive = plotRow < plotRows && plotCol < plotColumns && activePlots[plotRow][plotCol];
+  }
+  
+  // Parse crop data for each active plot, remembering which plot string fills which plot
+  const tilesPerPlot = plotSize * plotSize;
+  const plotIndices: number[][] = [];
+  let plotIndex = 0;
+  for (let plotRow = 0; plotRow < plotRows; plotRow++) {
+    plotIndices[plotRow] = [];
+    for (let plotCol = 0; plotCol < plotColumns; plotCol++) {
+      if (activePlots[plotRow][plotCol] && plotIndex < cropRows.length) {
+        plotIndices[plotRow][plotCol] = plotIndex;
+        const plotCropString = cropRows[plotIndex];
+        const cropCodes = plotCropString.match(format.tileCodePattern) || [];
         
-        tiles[i][j] = {
-          row: i,
-          col: j,
-          cropType: null,
-          fertilizerType: null,
-          needsWater: false, // Don't set random watering status - only relevant for tracked crops
-          isActive: isPlotActive
-        };
-      }
-    }
-    
-    // Parse crop data for each active plot
-    let plotIndex = 0;
-    for (let plotRow = 0; plotRow < plotRows; plotRow++) {
-      for (let plotCol = 0; plotCol < plotColumns; plotCol++) {
-        if (activePlots[plotRow][plotCol] && plotIndex < cropRows.length) {
-          const plotCropString = cropRows[plotIndex];
-          console.log(`🔄 Processing plot [${plotRow},${plotCol}] (index ${plotIndex}): "${plotCropString}"`);
+        if (cropCodes.length !== tilesPerPlot) {
+          addDiagnostic(diagnostics, {
+            severity: 'error',
+            section: 'crops',
+            plotIndex,
+            message: `Plot ${plotIndex + 1} has ${cropCodes.length} tiles, expected ${tilesPerPlot}; the plot was left empty`
+          });
+          plotIndex++;
+          continue;
+        }
+        
+        // Map each crop code to its corresponding tile in the plot
+        for (let tileIndex = 0; tileIndex < tilesPerPlot; tileIndex++) {
+          const tile = tiles[plotRow * plotSize + Math.floor(tileIndex / plotSize)][plotCol * plotSize + (tileIndex % plotSize)];
+          const [cropCode, fertiliserCode] = cropCodes[tileIndex].split('.');
+          // Kept so codes this app does not know survive re-encoding
+          tile.tileCode = cropCodes[tileIndex];
           
-          const regex = /[A-Z](?:\.[A-Z]|[^A-Z])*/g;
-          const cropCodes = plotCropString.match(regex);
+          if (!CROP_MAPPINGS[cropCode]) {
+            addDiagnostic(diagnostics, {
+              severity: 'error',
+              section: 'crops',
+              plotIndex,
+              tileIndex,
+              message: `Plot ${plotIndex + 1}, tile ${tileIndex + 1}: unknown crop code '${cropCode}'`
+            });
+            continue;
+          }
+          if (CROP_MAPPINGS[cropCode] !== 'None') {
+            tile.cropType = CROP_MAPPINGS[cropCode];
+          }
           
-          if (cropCodes && cropCodes.length === 9) { // Each plot should have 9 tiles
-            // Map each crop code to its corresponding tile in the 3x3 plot
-            let tileIndex = 0;
-            for (let pi = 0; pi < 3; pi++) {
-              for (let pj = 0; pj < 3; pj++) {
-                const tileRow = plotRow * 3 + pi;
-                const tileCol = plotCol * 3 + pj;
-                
-                if (tileRow < tileRows && tileCol < tileColumns && tileIndex < cropCodes.length) {
-                  const cropCodeWithFert = cropCodes[tileIndex];
-                  const [cropCode, fertiliserCode] = cropCodeWithFert.split('.');
-                  
-                  const tile = tiles[tileRow][tileCol];
-                  
-                  if (CROP_MAPPINGS[cropCode] && CROP_MAPPINGS[cropCode] !== 'None') {
-                    tile.cropType = CROP_MAPPINGS[cropCode];
-                    
-                    // Generate crop ID for multi-tile crops
-                    const cropSize = CROP_SIZES[CROP_MAPPINGS[cropCode]];
-                    if (cropSize && cropSize.size !== 'single') {
-                      tile.cropId = uuidv4();
-                    }
-                    
-                    console.log(`  🔸 Tile [${tileRow},${tileCol}]: ${CROP_MAPPINGS[cropCode]}`);
-                  }
-                  
-                  if (fertiliserCode && FERTILIZER_MAPPINGS[fertiliserCode] && FERTILIZER_MAPPINGS[fertiliserCode] !== 'None') {
-                    tile.fertilizerType = FERTILIZER_MAPPINGS[fertiliserCode];
-                    console.log(`  🧪 Fertilizer: ${FERTILIZER_MAPPINGS[fertiliserCode]}`);
-                  }
-                }
-                tileIndex++;
-              }
-            }
-          } else {
-            console.log(`⚠️ Plot ${plotIndex} has ${cropCodes?.length || 0} crop codes, expected 9`);
+          if (fertiliserCode && !FERTILIZER_MAPPINGS[fertiliserCode]) {
+            addDiagnostic(diagnostics, {
+              severity: 'warning',
+              section: 'crops',
+              plotIndex,
+              tileIndex,
+              message: `Plot ${plotIndex + 1}, tile ${tileIndex + 1}: unknown fertilizer code '${fertiliserCode}' was ignored`
+            });
+          } else if (fertiliserCode && FERTILIZER_MAPPINGS[fertiliserCode] !== 'None') {
+            tile.fertilizerType = FERTILIZER_MAPPINGS[fertiliserCode];
           }
-          plotIndex++;
         }
+        plotIndex++;
       }
     }
-    
-    // Generate crop summary
-    const cropSummary = generateCropSummary(tiles);
-    
-    const gardenData: ParsedGardenData = {
-      dimensions: { rows: tileRows, columns: tileColumns },
-      tiles,
-      activePlots,
-      cropSummary,
-      saveCode,
-      version,
-      settings: settingsInfo || undefined
-    };
-    
-    console.log(`✅ Successfully parsed garden data: ${tileRows}x${tileColumns} tiles (${plotRows}x${plotColumns} plots) with ${cropSummary.totalPlants} plants`);
-    return gardenData;
-    
-  } catch (error) {
-    console.error(`❌ Grid parsing error:`, error);
-    if (error instanceof Error) {
-      throw error;
+  }
+  
+  // Group tiles into physical plants (bushes and trees span several tiles and plots)
+  for (const tile of assignPlantIds(tiles)) {
+    const side = getFootprintSide(tile.cropType as string);
+    const tilePlotIndex = plotIndices[Math.floor(tile.row / plotSize)][Math.floor(tile.col / plotSize)];
+    const tileIndex = (tile.row % plotSize) * plotSize + (tile.col % plotSize);
+    addDiagnostic(diagnostics, {
+      severity: 'warning',
+      section: 'crops',
+      plotIndex: tilePlotIndex,
+      tileIndex,
+      message: `Plot ${tilePlotIndex + 1}, tile ${tileIndex + 1}: ${tile.cropType} does not form a complete ${side}x${side} footprint and was not counted`
+    });
+  }
+  
+  // Unrecognised settings are kept for re-encoding but cannot be shown
+  const plannerSettings = settingsInfo !== undefined ? parsePlannerSettings(settingsInfo) : undefined;
+  plannerSettings?.unknownTokens.forEach(token => {
+    addDiagnostic(diagnostics, {
+      severity: 'warning',
+      section: 'settings',
+      message: `Unrecognised setting '${token}' was ignored`
+    });
+  });
+  
+  // Generate crop summary
+  const cropSummary = generateCropSummary(tiles);
+  
+  return {
+    dimensions: { rows: tileRows, columns: tileColumns },
+    tiles,
+    activePlots,
+    cropSummary,
+    saveCode,
+    version,
+    settings: settingsInfo,
+    plannerSettings,
+    diagnostics
+  };
+}
+
+/**
+ * Side length of the square footprint a crop occupies (1 for single, 2 for bush, 3 for tree)
+ */
+function getFootprintSide(cropType: string): number {
+  const crop = CropCatalog.get(cropType);
+  return crop ? Math.round(Math.sqrt(crop.tiles)) : 1;
+}
+
+/**
+ * Assigns a shared cropId to every tile of each physical plant
+ * Tiles are scanned in row-major order, so the first unassigned tile of a plant is the
+ * top-left corner of its footprint. Footprints may cross plot boundaries. IDs are derived
+ * from that corner, so re-parsing the same save code yields the same IDs.
+ * @param tiles - 2D array of garden tiles (mutated in place)
+ * @returns Tiles that do not form a complete footprint and were left without a cropId
+ */
+function assignPlantIds(tiles: GridTile[][]): GridTile[] {
+  const leftovers: GridTile[] = [];
+
+  for (let row = 0; row < tiles.length; row++) {
+    for (let col = 0; col < tiles[row].length; col++) {
+      const tile = tiles[row][col];
+      if (!tile.cropType || !tile.isActive || tile.cropId) continue;
+
+      const side = getFootprintSide(tile.cropType);
+      const footprint: GridTile[] = [];
+      for (let dr = 0; dr < side; dr++) {
+        for (let dc = 0; dc < side; dc++) {
+          const candidate = tiles[row + dr]?.[col + dc];
+          if (candidate && candidate.isActive && candidate.cropType === tile.cropType && !candidate.cropId) {
+            footprint.push(candidate);
+          }
+        }
+      }
+
+      if (footprint.length === side * side) {
+        const cropId = `plant-${row}-${col}`;
+        footprint.forEach(footprintTile => {
+          footprintTile.cropId = cropId;
+        });
+      } else {
+        leftovers.push(tile);
+      }
+    }
+  }
+
+  return leftovers;
+}
+
+/**
+ * Whether a tile still holds what a tile code was parsed into
+ * Unknown crop and fertilizer codes parse to nothing, as in parseGridSections.
+ */
+function matchesTileCode(tile: GridTile, tileCode: string): boolean {
+  const [cropCode, fertilizerCode] = tileCode.split('.');
+  const cropType = CROP_MAPPINGS[cropCode];
+  const fertilizerType = cropType && fertilizerCode ? FERTILIZER_MAPPINGS[fertilizerCode] : undefined;
+  return (tile.cropType ?? 'None') === (cropType ?? 'None')
+    && (tile.fertilizerType ?? 'None') === (fertilizerType ?? 'None');
+}
+
+/**
+ * Encodes a single tile as a planner crop code with optional fertilizer suffix
+ * A tile parsed from a save code keeps its original code until its crop or fertilizer changes.
+ * @param tile - Garden tile to encode
+ * @returns Tile code (e.g., "T", "Co.Q" or "N")
+ * @throws SaveCodeError if the crop or fertilizer has no planner code
+ */
+function serializeTile(tile: GridTile): string {
+  if (tile.tileCode !== undefined && matchesTileCode(tile, tile.tileCode)) {
+    return tile.tileCode;
+  }
+
+  const cropCode = tile.cropType ? CropCatalog.get(tile.cropType)?.plannerCode : 'N';
+  if (!cropCode) {
+    throw new SaveCodeError(`No planner code for crop "${tile.cropType}".`, LayoutError.VALIDATION_ERROR);
+  }
+
+  if (!tile.fertilizerType || tile.fertilizerType === 'None') {
+    return cropCode;
+  }
+
+  const fertilizerCode = FERTILIZER_CODES[tile.fertilizerType];
+  if (!fertilizerCode) {
+    throw new SaveCodeError(`No planner code for fertilizer "${tile.fertilizerType}".`, LayoutError.VALIDATION_ERROR);
+  }
+
+  return `${cropCode}.${fertilizerCode}`;
+}
+
+/**
+ * Serializes garden data back into a Palia Garden Planner save code
+ * Inverse of parseGridData: unedited parsed data re-encodes to the original code
+ * @param gardenData - Parsed (or edited) garden data
+ * @returns Save code in the format v{version}_D-{plots}_CR-{crops}[_{settings}]
+ * @throws SaveCodeError if the version cannot be encoded or a tile has no planner code
+ */
+export function serializeGardenData(gardenData: ParsedGardenData): string {
+  const { activePlots, tiles, version, settings } = gardenData;
+
+  const format = SAVE_CODE_FORMATS[version];
+  if (!format) {
+    throw new SaveCodeError(`Cannot encode save code version "${version}".`);
+  }
+  const plotSize = format.plotSize;
+
+  // Plot mask: one row of 1/0 flags per plot row
+  const dimensionInfo = ['D', ...activePlots.map(row => row.map(isActive => (isActive ? '1' : '0')).join(''))].join('-');
+
+  // Crop codes: one tile code per tile of each active plot, in row-major plot order
+  const plotStrings: string[] = [];
+  for (let plotRow = 0; plotRow < activePlots.length; plotRow++) {
+    for (let plotCol = 0; plotCol < activePlots[plotRow].length; plotCol++) {
+      if (!activePlots[plotRow][plotCol]) continue;
+
+      let plotString = '';
+      for (let pi = 0; pi < plotSize; pi++) {
+        for (let pj = 0; pj < plotSize; pj++) {
+          plotString += serializeTile(tiles[plotRow * plotSize + pi][plotCol * plotSize + pj]);
+        }
+      }
+      plotStrings.push(plotString);
     }
-    throw new Error('Failed to parse garden grid data.');
   }
+  const cropInfo = format.cropSectionPrefix + plotStrings.join('-');
+
+  const sections = [version, dimensionInfo, cropInfo];
+  if (format.hasSettings && settings !== undefined) {
+    sections.push(settings);
+  }
+
+  return sections.join('_');
+}
+
+/**
+ * Builds a Palia Garden Planner URL that opens the given garden
+ * @param gardenData - Parsed (or edited) garden data
+ * @returns URL with the save code in the layout parameter
+ */
+export function buildPlannerUrl(gardenData: ParsedGardenData): string {
+  const url = new URL(`https://${PLANNER_HOSTNAME}/`);
+  url.searchParams.set('layout', serializeGardenData(gardenData));
+  return url.toString();
 }
 
 /**
@@ -462,50 +674,44 @@ export function generateCropSummary(tiles: GridTile[][]): CropSummary {
   let totalPlants = 0;
   let plantsNeedingWater = 0;
   
-  // Count all crop tiles
-  const cropTiles: string[] = [];
+  // Group tiles into plants: tiles sharing a cropId are one plant
+  const plants: { [plantKey: string]: { cropType: string; needsWater: boolean } } = {};
   for (const row of tiles) {
     for (const tile of row) {
-      if (tile.cropType && tile.cropType !== 'None' && tile.isActive) {
-        cropTiles.push(tile.cropType);
+      if (!tile.cropType || tile.cropType === 'None' || !tile.isActive) continue;
+      
+      const crop = CropCatalog.get(tile.cropType);
+      // Multi-tile tiles without a cropId are incomplete footprints
+      if (!tile.cropId && crop && crop.size !== 'single') continue;
+      
+      const plantKey = tile.cropId || `${tile.row}-${tile.col}`;
+      if (!plants[plantKey]) {
+        plants[plantKey] = { cropType: tile.cropType, needsWater: false };
       }
+      // A plant needs water if any of its tiles does
+      plants[plantKey].needsWater = plants[plantKey].needsWater || tile.needsWater;
     }
   }
   
-  // Count tiles by crop type
-  const tileCounts: { [key: string]: { total: number; needingWater: number } } = {};
-  for (const row of tiles) {
-    for (const tile of row) {
-      if (tile.cropType && tile.cropType !== 'None' && tile.isActive) {
-        if (!tileCounts[tile.cropType]) {
-          tileCounts[tile.cropType] = { total: 0, needingWater: 0 };
-        }
-        tileCounts[tile.cropType].total++;
-        if (tile.needsWater) {
-          tileCounts[tile.cropType].needingWater++;
-        }
-      }
+  // Count plants by canonical crop name (older layouts may store aliases)
+  for (const plant of Object.values(plants)) {
+    const crop = CropCatalog.get(plant.cropType);
+    if (!crop) continue;
+    
+    if (!cropBreakdown[crop.name]) {
+      cropBreakdown[crop.name] = {
+        total: 0,
+        needingWater: 0,
+        size: crop.size,
+        tilesPerPlant: crop.tiles
+      };
     }
-  }
-  
-  // Convert tile counts to plant counts
-  for (const [cropType, counts] of Object.entries(tileCounts)) {
-    const cropSize = CROP_SIZES[cropType];
-    if (cropSize) {
-      const plantCount = Math.floor(counts.total / cropSize.tiles);
-      const plantsNeedingWaterCount = Math.floor(counts.needingWater / cropSize.tiles);
-      
-      if (plantCount > 0) {
-        cropBreakdown[cropType] = {
-          total: plantCount,
-          needingWater: plantsNeedingWaterCount,
-          size: cropSize.size,
-          tilesPerPlant: cropSize.tiles
-        };
-        
-        totalPlants += plantCount;
-        plantsNeedingWater += plantsNeedingWaterCount;
-      }
+    
+    cropBreakdown[crop.name].total++;
+    totalPlants++;
+    if (plant.needsWater) {
+      cropBreakdown[crop.name].needingWater++;
+      plantsNeedingWater++;
     }
   }
   
@@ -520,30 +726,63 @@ export function generateCropSummary(tiles: GridTile[][]): CropSummary {
 }
 
 /**
- * Enhanced version of parsePaliaPlannerUrl that maintains backward compatibility
- * but uses the new parseGridData function internally
- * @param input - Either a direct save code or palia-garden-planner.vercel.app URL
- * @returns Promise<Plant[]> - Array of Plant objects for backward compatibility
+ * Lists the physical plants of a parsed garden, one per cropId
+ * Plant IDs are the layout's cropIds, so watering state stored against them survives re-parsing.
+ * Tiles of incomplete footprints have no cropId and are not plants.
+ * @param tiles - 2D array of garden tiles
+ * @param needsWater - Initial watering state for every plant
+ * @returns Plants named by canonical crop name, in row-major order of their top-left tile
  */
-export async function parseSaveCode(input: string): Promise<Plant[]> {
-  try {
-    const gardenData = await parseGridData(input);
-    const plants: Plant[] = [];
-    
-    // Convert crop summary to Plant objects for backward compatibility
-    for (const [cropType, summary] of Object.entries(gardenData.cropSummary.cropBreakdown)) {
-      for (let i = 0; i < summary.total; i++) {
-        plants.push({
-          id: uuidv4(),
-          name: cropType,
-          needsWater: false
-        });
-      }
+export function extractPlants(tiles: GridTile[][], needsWater = true): Plant[] {
+  const plants: Plant[] = [];
+  const seen = new Set<string>();
+
+  for (const row of tiles) {
+    for (const tile of row) {
+      if (!tile.cropId || !tile.cropType || !tile.isActive || seen.has(tile.cropId)) continue;
+      seen.add(tile.cropId);
+      plants.push({
+        id: tile.cropId,
+        name: CropCatalog.getCanonicalName(tile.cropType),
+        needsWater
+      });
     }
-    
-    return plants;
-  } catch (error) {
-    // Fallback to original implementation for backward compatibility
-    return parsePaliaPlannerUrl(input);
   }
+
+  return plants;
+}
+
+/**
+ * Overlays tracked watering state onto a parsed garden
+ * Every tile of a plant takes the plant's state; tiles of untracked plants are left unchanged.
+ * @param gardenData - Parsed garden
+ * @param plants - Tracked plants, identified by cropId
+ * @returns A copy of the garden with updated tiles and crop summary
+ */
+export function applyPlantWateringToGarden(gardenData: ParsedGardenData, plants: Plant[]): ParsedGardenData {
+  const needsWaterById: { [plantId: string]: boolean } = {};
+  plants.forEach(plant => {
+    needsWaterById[plant.id] = plant.needsWater;
+  });
+
+  const tiles = gardenData.tiles.map(row => row.map(tile =>
+    tile.cropId && needsWaterById[tile.cropId] !== undefined
+      ? { ...tile, needsWater: needsWaterById[tile.cropId] }
+      : tile
+  ));
+
+  return {
+    ...gardenData,
+    tiles,
+    cropSummary: generateCropSummary(tiles)
+  };
+}
+
+/**
+ * Alias of parsePaliaPlannerUrl
+ * @param input - Either a direct save code or palia-garden-planner.vercel.app URL
+ * @returns Promise<Plant[]> - Array of Plant objects
+ */
+export async function parseSaveCode(input: string): Promise<Plant[]> {
+  return parsePaliaPlannerUrl(input);
 }
\ No newline at end of file
@@ -0,0 +1,236 @@
+import {
+  SchemaMigrationResult,
+  createGardenProfile,
+  CURRENT_VERSION,
+  DEFAULT_GARDEN_NAME,
+  STORAGE_KEYS
+} from '../types/unified';
+import { StorageAdapter } from './storageAdapter';
+
+/**
+ * One step of the schema migration chain
+ * Migrations work on parsed JSON, before dates are revived, and must not depend on later versions.
+ */
+export interface SchemaMigration {
+  /** Version the migration upgrades from */
+  from: string;
+  /** Version the migration produces */
+  to: string;
+  /** What the migration changes */
+  description: string;
+  /** Upgrade parsed data stored with the `from` version */
+  migrate: (data: any) => any;
+}
+
+/**
+ * 2.0 → 2.1: fill in the fields that 2.0 data saved by older app versions may lack
+ * - every tracked crop gets a watered-day count
+ * - the active layout link becomes explicit
+ * - the data becomes the default garden profile if it has none
+ */
+const migrate2_0To2_1 = (data: any): any => {
+  const withDaysWatered = (crops: any[]) => crops.map(crop => ({
+    ...crop,
+    daysWatered: typeof crop.daysWatered === 'number' ? crop.daysWatered : 0
+  }));
+
+  const trackedCrops = withDaysWatered(Array.isArray(data.trackedCrops) ? data.trackedCrops : []);
+  const activeLayoutId = typeof data.activeLayoutId === 'string' ? data.activeLayoutId : null;
+  let gardens = Array.isArray(data.gardens)
+    ? data.gardens.map((garden: any) => ({
+        ...garden,
+        trackedCrops: withDaysWatered(Array.isArray(garden.trackedCrops) ? garden.trackedCrops : [])
+      }))
+    : [];
+  let activeGardenId = data.activeGardenId;
+
+  if (!gardens.some((garden: any) => garden.id === activeGardenId)) {
+    const defaultGarden = createGardenProfile(DEFAULT_GARDEN_NAME, {
+      trackedCrops,
+      dailyWateringState: data.dailyWateringState,
+      activeLayoutId
+    });
+    gardens = [...gardens, defaultGarden];
+    activeGardenId = defaultGarden.id;
+  }
+
+  return {
+    ...data,
+    version: '2.1',
+    trackedCrops,
+    activeLayoutId,
+    gardens,
+    activeGardenId
+  };
+};
+
+/**
+ * Every schema migration, oldest first. Each entry must upgrade from the previous entry's `to` version;
+ * the last entry must produce CURRENT_VERSION.
+ */
+const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+  {
+    from: '2.0',
+    to: '2.1',
+    description: 'Add watered-day counts, the active layout link and garden profiles',
+    migrate: migrate2_0To2_1
+  }
+];
+
+/**
+ * Service for upgrading persisted unified store data to the current schema version
+ */
+export class SchemaMigrationService {
+  /**
+   * Migrations needed to bring data from a version to CURRENT_VERSION
+   * @param fromVersion - Version the data was stored with
+   * @returns The migrations to apply in order, or null if there is no path (unknown or newer version)
+   */
+  static getMigrationPath(fromVersion: string): SchemaMigration[] | null {
+    const path: SchemaMigration[] = [];
+    let version = fromVersion;
+
+    while (version !== CURRENT_VERSION) {
+      const from = version;
+      const next = SCHEMA_MIGRATIONS.find(migration => migration.from === from);
+      if (!next) {
+        return null;
+      }
+      path.push(next);
+      version = next.to;
+    }
+
+    return path;
+  }
+
+  /**
+   * Whether a schema version is later than CURRENT_VERSION (e.g., data saved by a newer build)
+   * Versions that are not dot-separated numbers are never newer.
+   */
+  static isNewerVersion(version: string): boolean {
+    const parts = version.split('.').map(Number);
+    const current = CURRENT_VERSION.split('.').map(Number);
+    if (parts.some(part => isNaN(part))) {
+      return false;
+    }
+
+    for (let index = 0; index < Math.max(parts.length, current.length); index++) {
+      const difference = (parts[index] ?? 0) - (current[index] ?? 0);
+      if (difference !== 0) {
+        return difference > 0;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Upgrade parsed persisted data to the current schema
+   * Does not touch localStorage; the input is not modified.
+   * @param data - Parsed JSON as stored
+   * @returns The upgraded data (null if the upgrade failed) and what happened
+   */
+  static migrate(data: any): { data: any | null; result: SchemaMigrationResult } {
+    const fromVersion = typeof data?.version === 'string' ? data.version : null;
+    const result: SchemaMigrationResult = {
+      success: false,
+      fromVersion,
+      toVersion: CURRENT_VERSION,
+      appliedMigrations: [],
+      errors: []
+    };
+
+    if (fromVersion === null) {
+      result.errors.push('Saved data has no schema version');
+      return { data: null, result };
+    }
+
+    if (this.isNewerVersion(fromVersion)) {
+      result.errors.push(`Saved data is from version ${fromVersion}, newer than this app's version ${CURRENT_VERSION}`);
+      result.newerVersion = true;
+      return { data: null, result };
+    }
+
+    const path = this.getMigrationPath(fromVersion);
+    if (!path) {
+      result.errors.push(`No migration path from version ${fromVersion} to ${CURRENT_VERSION}`);
+      return { data: null, result };
+    }
+
+    let migrated = data;
+    for (const migration of path) {
+      try {
+        migrated = migration.migrate(migrated);
+        result.appliedMigrations.push(`${migration.from} → ${migration.to}`);
+      } catch (error) {
+        result.errors.push(`Migration ${migration.from} → ${migration.to} failed: ${error instanceof Error ? error.message : error}`);
+        return { data: null, result };
+      }
+    }
+
+    result.success = true;
+    return { data: migrated, result };
+  }
+
+  /**
+   * Keep a copy of persisted data before it is upgraded or discarded
+   * Every backup gets its own key, so a later failed load never overwrites an earlier copy.
+   * @param raw - Data exactly as stored
+   * @param storage - Storage the data was read from
+   * @param fromVersion - Version the data was stored with (null if unknown)
+   * @returns The storage key of the backup (e.g., "paliaUnifiedGardenBackup-2.0-1718000000000"),
+   * or undefined if it could not be written
+   */
+  static async backup(raw: string, storage: StorageAdapter, fromVersion: string | null): Promise<string | undefined> {
+    const key = `${STORAGE_KEYS.UNIFIED_GARDEN_BACKUP}-${fromVersion ?? 'unknown'}-${Date.now()}`;
+    try {
+      await storage.setItem(key, raw);
+      return key;
+    } catch (error) {
+      console.error('Error backing up persisted data:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Parse, back up if needed and upgrade stored unified data
+   * Data from a newer version is neither backed up nor upgraded; the caller must not save over it.
+   * @param raw - Data exactly as stored
+   * @param storage - Storage the data was read from, which also receives the backup
+   * @returns Data in the current schema with dates still serialized (null if unusable), and the
+   * migration result (null if the data was already current)
+   */
+  static async upgradeStoredData(
+    raw: string,
+    storage: StorageAdapter
+  ): Promise<{ data: any | null; result: SchemaMigrationResult | null }> {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(raw);
+    } catch (error) {
+      return {
+        data: null,
+        result: {
+          success: false,
+          fromVersion: null,
+          toVersion: CURRENT_VERSION,
+          appliedMigrations: [],
+          errors: ['Saved data is not valid JSON'],
+          backupKey: await this.backup(raw, storage, null)
+        }
+      };
+    }
+
+    if (parsed?.version === CURRENT_VERSION) {
+      return { data: parsed, result: null };
+    }
+
+    const { data, result } = this.migrate(parsed);
+    if (result.newerVersion) {
+      // Left as stored: the newer build that wrote it can still read it
+      return { data: null, result };
+    }
+
+    const backupKey = await this.backup(raw, storage, result.fromVersion);
+    return { data, result: { ...result, backupKey } };
+  }
+}
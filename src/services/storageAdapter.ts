@@ -0,0 +1,261 @@
+/**
+ * Key-value storage backends
+ *
+ * Services store their data as strings through a StorageAdapter instead of calling localStorage
+ * directly, so the same code can run against localStorage, IndexedDB or memory.
+ */
+
+/** IndexedDB database and object store that hold the app's data */
+const INDEXED_DB_NAME = 'palia_watering_tracker';
+const INDEXED_DB_STORE = 'keyval';
+
+/**
+ * Asynchronous string storage
+ */
+export interface StorageAdapter {
+  /** Backend name shown in storage information (e.g., "indexedDB") */
+  readonly name: string;
+  /** Stored value, or null if the key does not exist */
+  getItem(key: string): Promise<string | null>;
+  /** Store a value; rejects if the backend is full or unavailable */
+  setItem(key: string, value: string): Promise<void>;
+  /** Remove a key; removing a missing key is not an error */
+  removeItem(key: string): Promise<void>;
+  /** Bytes this origin may store in the backend, or null if unknown */
+  getQuota(): Promise<number | null>;
+}
+
+/**
+ * Storage backed by window.localStorage
+ * Writes finish synchronously, so a save started while the page is being hidden is not lost.
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly name = 'localStorage';
+
+  async getItem(key: string): Promise<string | null> {
+    return localStorage.getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    localStorage.setItem(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    localStorage.removeItem(key);
+  }
+
+  async getQuota(): Promise<number | null> {
+    // Browsers do not report the localStorage limit, and navigator.storage.estimate() does not cover it
+    return null;
+  }
+}
+
+/**
+ * Storage backed by an IndexedDB object store
+ * Holds far more than localStorage; the database is opened on first use.
+ */
+export class IndexedDBAdapter implements StorageAdapter {
+  readonly name = 'indexedDB';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private dbName: string = INDEXED_DB_NAME,
+    private storeName: string = INDEXED_DB_STORE
+  ) {}
+
+  async getItem(key: string): Promise<string | null> {
+    const value = await this.request<unknown>('readonly', store => store.get(key));
+    return typeof value === 'string' ? value : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.request('readwrite', store => store.put(value, key));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(key));
+  }
+
+  async getQuota(): Promise<number | null> {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+      return null;
+    }
+
+    try {
+      const estimate = await navigator.storage.estimate();
+      return estimate.quota ?? null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Whether the database can be opened; it cannot in some private browsing modes
+   */
+  async isUsable(): Promise<boolean> {
+    try {
+      await this.openDatabase();
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const openRequest = indexedDB.open(this.dbName, 1);
+        openRequest.onupgradeneeded = () => {
+          openRequest.result.createObjectStore(this.storeName);
+        };
+        openRequest.onsuccess = () => resolve(openRequest.result);
+        openRequest.onerror = () => reject(openRequest.error);
+      }).catch(error => {
+        // Let the next call try again
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+
+    return this.dbPromise;
+  }
+
+  private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.openDatabase();
+
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, mode);
+      const request = run(transaction.objectStore(this.storeName));
+      // Resolve once the transaction commits so a finished setItem is durable
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
+
+/**
+ * Storage that only lives as long as the page, for tests and demos
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  readonly name = 'memory';
+  private items = new Map<string, string>();
+
+  async getItem(key: string): Promise<string | null> {
+    return this.items.has(key) ? this.items.get(key)! : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+
+  async getQuota(): Promise<number | null> {
+    return null;
+  }
+}
+
+/**
+ * IndexedDB storage that switches to another backend if the database cannot be opened
+ * The check runs on first use; the chosen backend is kept for the lifetime of the page.
+ */
+export class FallbackStorageAdapter implements StorageAdapter {
+  private backend: Promise<StorageAdapter> | null = null;
+  private resolved: StorageAdapter | null = null;
+
+  constructor(
+    private primary: IndexedDBAdapter,
+    private fallback: StorageAdapter
+  ) {}
+
+  /** Name of the backend in use (the primary's until the check has run) */
+  get name(): string {
+    return (this.resolved ?? this.primary).name;
+  }
+
+  /**
+   * The backend in use, checking the primary on first call
+   */
+  resolve(): Promise<StorageAdapter> {
+    if (!this.backend) {
+      this.backend = this.primary.isUsable().then(usable => {
+        if (!usable) {
+          console.warn(`IndexedDB is unavailable, storing data in ${this.fallback.name} instead`);
+        }
+        this.resolved = usable ? this.primary : this.fallback;
+        return this.resolved;
+      });
+    }
+    return this.backend;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return (await this.resolve()).getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    return (await this.resolve()).setItem(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    return (await this.resolve()).removeItem(key);
+  }
+
+  async getQuota(): Promise<number | null> {
+    return (await this.resolve()).getQuota();
+  }
+}
+
+/**
+ * Whether this browser can use IndexedDB
+ */
+export function isIndexedDBAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+/**
+ * The largest storage backend this browser supports: IndexedDB, falling back to localStorage
+ * when IndexedDB is missing or its database cannot be opened
+ */
+export function createDefaultStorageAdapter(): StorageAdapter {
+  return isIndexedDBAvailable()
+    ? new FallbackStorageAdapter(new IndexedDBAdapter(), new LocalStorageAdapter())
+    : new LocalStorageAdapter();
+}
+
+/**
+ * The backend that actually stores data for an adapter, looking through fallback adapters
+ */
+export async function resolveStorageAdapter(storage: StorageAdapter): Promise<StorageAdapter> {
+  return storage instanceof FallbackStorageAdapter ? storage.resolve() : storage;
+}
+
+/**
+ * Move a stored value from one backend to another
+ * A value already present in the target wins; the source copy is removed only after the target
+ * has been written, so an interrupted move never loses data.
+ * @param key - Key of the value in both backends
+ * @param from - Backend the value is moved out of
+ * @param to - Backend the value is moved into
+ * @returns Whether a value was copied into the target
+ */
+export async function moveStorageItem(key: string, from: StorageAdapter, to: StorageAdapter): Promise<boolean> {
+  if (from === to) {
+    return false;
+  }
+
+  const value = await from.getItem(key);
+  if (value === null) {
+    return false;
+  }
+
+  const existing = await to.getItem(key);
+  if (existing === null) {
+    await to.setItem(key, value);
+  }
+  await from.removeItem(key);
+  return existing === null;
+}
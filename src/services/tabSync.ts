@@ -0,0 +1,91 @@
+/**
+ * Change notifications between tabs of the app
+ *
+ * A tab that writes shared data publishes the storage key and write time; other tabs reload the
+ * data. BroadcastChannel is used where available, otherwise a localStorage entry whose `storage`
+ * event reaches the other tabs.
+ */
+
+/** BroadcastChannel shared by all tabs of the app */
+const CHANNEL_NAME = 'palia_watering_tracker_sync';
+
+/** Prefix of the localStorage entries written when BroadcastChannel is unavailable */
+const FALLBACK_KEY_PREFIX = 'palia_watering_tracker_sync:';
+
+/**
+ * A write made by another tab
+ */
+export interface TabChange {
+  /** Storage key of the data that changed */
+  key: string;
+  /** When the data was written (milliseconds since the Unix epoch) */
+  lastSaved: number;
+}
+
+let channel: BroadcastChannel | null | undefined;
+
+/**
+ * The shared channel, or null if this browser has no BroadcastChannel
+ */
+function getChannel(): BroadcastChannel | null {
+  if (channel === undefined) {
+    channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+  }
+  return channel;
+}
+
+/**
+ * Tell other tabs that data under a storage key was written
+ * @param key - Storage key of the data
+ * @param lastSaved - When the data was written
+ */
+export function publishTabChange(key: string, lastSaved: number): void {
+  const change: TabChange = { key, lastSaved };
+  const broadcast = getChannel();
+
+  try {
+    if (broadcast) {
+      broadcast.postMessage(change);
+    } else if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(FALLBACK_KEY_PREFIX + key, JSON.stringify(change));
+    }
+  } catch (error) {
+    console.warn('Failed to notify other tabs of a change:', error);
+  }
+}
+
+/**
+ * Listen for writes made by other tabs; a tab never receives its own changes
+ * @param key - Storage key of the data to watch
+ * @param listener - Called with each change
+ * @returns Function that stops listening
+ */
+export function subscribeToTabChanges(key: string, listener: (change: TabChange) => void): () => void {
+  if (typeof window === 'undefined') {
+    return () => {};
+  }
+
+  const broadcast = getChannel();
+  if (broadcast) {
+    const onMessage = (event: MessageEvent<TabChange>) => {
+      if (event.data?.key === key) {
+        listener(event.data);
+      }
+    };
+    broadcast.addEventListener('message', onMessage);
+    return () => broadcast.removeEventListener('message', onMessage);
+  }
+
+  const onStorage = (event: StorageEvent) => {
+    if (event.key !== FALLBACK_KEY_PREFIX + key || !event.newValue) {
+      return;
+    }
+    try {
+      listener(JSON.parse(event.newValue));
+    } catch (error) {
+      console.warn('Ignoring malformed tab change:', error);
+    }
+  };
+  window.addEventListener('storage', onStorage);
+  return () => window.removeEventListener('storage', onStorage);
+}
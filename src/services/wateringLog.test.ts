@@ -0,0 +1,67 @@
+import { WateringRecord } from '../types/unified';
+import { getPaliaDay } from './paliaTime';
+import { WATERING_LOG_RETENTION_DAYS, appendWateringRecords, getMissedDaysThisWeek } from './wateringLog';
+
+const HOUR = 60 * 60 * 1000;
+const PALIA_HOUR = HOUR / 24;
+const RESET_HOUR = 6;
+
+/** Monday 2024-08-19 05:00 UTC = Sunday 21:00 PST, the start of Palia week 2850 */
+const WEEK_START = Date.UTC(2024, 7, 19, 5);
+
+/** First Palia day of week 2850 */
+const FIRST_DAY = getPaliaDay(WEEK_START);
+
+const record = (paliaDay: number, watered: boolean, cropType = 'Tomato'): WateringRecord => ({
+  gardenId: 'garden-1',
+  cropType,
+  paliaDay,
+  watered,
+  recordedAt: 0
+});
+
+describe('getMissedDaysThisWeek', () => {
+  const log = [record(FIRST_DAY - 2, false), record(FIRST_DAY - 1, true), record(FIRST_DAY, false)];
+
+  it('counts the week of the current day until the reset hour passes', () => {
+    const beforeReset = WEEK_START + (RESET_HOUR - 1) * PALIA_HOUR;
+
+    expect(getMissedDaysThisWeek(log, 'garden-1', beforeReset, RESET_HOUR)).toEqual([FIRST_DAY - 2]);
+  });
+
+  it('moves to the new week at the reset hour', () => {
+    const atReset = WEEK_START + RESET_HOUR * PALIA_HOUR;
+
+    expect(getMissedDaysThisWeek(log, 'garden-1', atReset, RESET_HOUR)).toEqual([FIRST_DAY]);
+  });
+
+  it('only counts the given crop', () => {
+    const cropLog = [...log, record(FIRST_DAY + 1, false, 'Potato')];
+    const now = WEEK_START + 3 * HOUR;
+
+    expect(getMissedDaysThisWeek(cropLog, 'garden-1', now, RESET_HOUR, 'Potato')).toEqual([FIRST_DAY + 1]);
+  });
+});
+
+describe('appendWateringRecords', () => {
+  it('skips days that already have a record for the crop', () => {
+    const log = [record(FIRST_DAY, false)];
+
+    expect(appendWateringRecords(log, [record(FIRST_DAY, true), record(FIRST_DAY, true, 'Potato')]))
+      .toEqual([record(FIRST_DAY, false), record(FIRST_DAY, true, 'Potato')]);
+  });
+
+  it('returns the same log when nothing was added', () => {
+    const log = [record(FIRST_DAY, false)];
+
+    expect(appendWateringRecords(log, [record(FIRST_DAY, true)])).toBe(log);
+  });
+
+  it('drops records that fall out of the retention window', () => {
+    const oldest = FIRST_DAY - WATERING_LOG_RETENTION_DAYS;
+    const log = [record(oldest, true), record(oldest + 1, true)];
+
+    expect(appendWateringRecords(log, [record(FIRST_DAY, true)]))
+      .toEqual([record(oldest + 1, true), record(FIRST_DAY, true)]);
+  });
+});
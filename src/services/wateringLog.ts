@@ -0,0 +1,298 @@
+/**
+ * Queries over the watering log
+ *
+ * The log holds one record per garden, crop and Palia day. Days are counted from the daily reset
+ * (see getPaliaTimeSinceReset), so a day's record covers everything between two resets. All
+ * functions are pure and never read the system clock.
+ */
+import { WateringRecord } from '../types/unified';
+import { getPaliaTime, getPaliaTimeSinceReset, getRealTimeOfPaliaDay } from './paliaTime';
+
+/**
+ * Watering outcome of every crop of a garden on one day
+ */
+export interface WateringDaySummary {
+  paliaDay: number;
+  /** Records of the day, sorted by crop */
+  records: WateringRecord[];
+  wateredCount: number;
+  missedCount: number;
+}
+
+/**
+ * Palia days the log keeps, counted back from its most recent day
+ * A Palia day lasts an hour, so this is eight Palia weeks (56 real days) of records.
+ */
+export const WATERING_LOG_RETENTION_DAYS = 8 * 7 * 24;
+
+const recordKey = (record: WateringRecord): string => `${record.gardenId}|${record.cropType}|${record.paliaDay}`;
+
+/**
+ * Drop records older than the retention window
+ * @returns The log itself when nothing was dropped
+ */
+function pruneWateringLog(log: WateringRecord[]): WateringRecord[] {
+  let newestDay = -Infinity;
+  for (const record of log) {
+    newestDay = Math.max(newestDay, record.paliaDay);
+  }
+
+  const oldestKeptDay = newestDay - WATERING_LOG_RETENTION_DAYS + 1;
+  return log.some(record => record.paliaDay < oldestKeptDay)
+    ? log.filter(record => record.paliaDay >= oldestKeptDay)
+    : log;
+}
+
+/**
+ * Append records to the log, skipping days that already have a record for the crop
+ * Records that fall out of the retention window (see WATERING_LOG_RETENTION_DAYS) are dropped.
+ * @param log - Current log, oldest first
+ * @param records - New records
+ * @returns The new log (the input is not modified)
+ */
+export function appendWateringRecords(log: WateringRecord[], records: WateringRecord[]): WateringRecord[] {
+  if (records.length === 0) {
+    return log;
+  }
+
+  const existing = new Set(log.map(recordKey));
+  const added = records.filter(record => {
+    const key = recordKey(record);
+    if (existing.has(key)) {
+      return false;
+    }
+    existing.add(key);
+    return true;
+  });
+
+  return added.length > 0 ? pruneWateringLog([...log, ...added]) : log;
+}
+
+/**
+ * Records of one crop, oldest day first
+ */
+export function getCropRecords(log: WateringRecord[], gardenId: string, cropType: string): WateringRecord[] {
+  return log
+    .filter(record => record.gardenId === gardenId && record.cropType === cropType)
+    .sort((a, b) => a.paliaDay - b.paliaDay);
+}
+
+/**
+ * Current and longest run of consecutive watered days
+ */
+export interface WateringStreaks {
+  /** Run ending at the most recent recorded day (0 if that day was missed) */
+  current: number;
+  /** Longest run in the log */
+  best: number;
+}
+
+/**
+ * Watered and recorded counts over some period
+ */
+export interface WateringCompletion {
+  wateredCount: number;
+  totalCount: number;
+}
+
+/**
+ * Completion of one Palia week
+ */
+export interface WeeklyCompletion extends WateringCompletion {
+  /** Palia week identifier (see PaliaTime.weekIdentifier) */
+  weekIdentifier: string;
+}
+
+/**
+ * One row of the completion heatmap: a Palia week split into its seven days
+ */
+export interface HeatmapWeek {
+  weekIdentifier: string;
+  /** Completion of each day of the week (index = PaliaTime.dayOfWeek); null if nothing was recorded */
+  days: Array<WateringCompletion | null>;
+}
+
+/**
+ * Streaks over days sorted oldest first; a gap between days ends a run
+ */
+function countStreaks(days: Array<{ paliaDay: number; watered: boolean }>): WateringStreaks {
+  let run = 0;
+  let best = 0;
+  let previousDay: number | undefined;
+
+  for (const day of days) {
+    if (!day.watered) {
+      run = 0;
+    } else {
+      run = previousDay !== undefined && day.paliaDay === previousDay + 1 ? run + 1 : 1;
+    }
+    best = Math.max(best, run);
+    previousDay = day.paliaDay;
+  }
+
+  return { current: run, best };
+}
+
+/**
+ * Streaks of one crop
+ * A missed day or a day without a record ends a streak.
+ */
+export function getCropWateringStreaks(log: WateringRecord[], gardenId: string, cropType: string): WateringStreaks {
+  return countStreaks(getCropRecords(log, gardenId, cropType));
+}
+
+/**
+ * Consecutive watered days of a crop, counting back from its most recent record
+ * @returns Number of days in the streak (0 if the last recorded day was missed)
+ */
+export function getWateringStreak(log: WateringRecord[], gardenId: string, cropType: string): number {
+  return getCropWateringStreaks(log, gardenId, cropType).current;
+}
+
+/**
+ * Streaks of a whole garden; a day only counts if every crop recorded on it was watered
+ */
+export function getGardenWateringStreaks(log: WateringRecord[], gardenId: string): WateringStreaks {
+  const days = summarizeWateringDays(log, gardenId)
+    .reverse()
+    .map(day => ({ paliaDay: day.paliaDay, watered: day.missedCount === 0 }));
+  return countStreaks(days);
+}
+
+/**
+ * Crops with at least one record in a garden, sorted by name
+ */
+export function getLoggedCropTypes(log: WateringRecord[], gardenId: string): string[] {
+  const cropTypes = new Set<string>();
+  for (const record of log) {
+    if (record.gardenId === gardenId) {
+      cropTypes.add(record.cropType);
+    }
+  }
+  return Array.from(cropTypes).sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Identifier of the Palia week a day belongs to, taken at the day's reset
+ * @param paliaDay - Day counted from the daily reset
+ * @param resetHour - Palia hour of the daily reset
+ */
+export function getWeekOfWateringDay(paliaDay: number, resetHour: number): string {
+  return getPaliaTime(getRealTimeOfPaliaDay(paliaDay, resetHour)).weekIdentifier;
+}
+
+/**
+ * Days of the current Palia week on which a crop (or any crop) of a garden was missed
+ * The current week is the week of the current day, which starts at the daily reset.
+ * @param timestamp - Current real time in milliseconds since the Unix epoch
+ * @param resetHour - Palia hour of the daily reset
+ * @param cropType - Only count this crop; all crops when omitted
+ * @returns Missed days, oldest first
+ */
+export function getMissedDaysThisWeek(
+  log: WateringRecord[],
+  gardenId: string,
+  timestamp: number,
+  resetHour: number,
+  cropType?: string
+): number[] {
+  const week = getWeekOfWateringDay(getPaliaTimeSinceReset(timestamp, resetHour).paliaDay, resetHour);
+  const missedDays = new Set<number>();
+
+  for (const record of log) {
+    if (
+      record.gardenId === gardenId &&
+      !record.watered &&
+      (cropType === undefined || record.cropType === cropType) &&
+      getWeekOfWateringDay(record.paliaDay, resetHour) === week
+    ) {
+      missedDays.add(record.paliaDay);
+    }
+  }
+
+  return Array.from(missedDays).sort((a, b) => a - b);
+}
+
+/**
+ * Group the records of a garden by day
+ * @returns One summary per recorded day, most recent first
+ */
+export function summarizeWateringDays(log: WateringRecord[], gardenId: string): WateringDaySummary[] {
+  const byDay = new Map<number, WateringRecord[]>();
+  for (const record of log) {
+    if (record.gardenId !== gardenId) continue;
+    byDay.set(record.paliaDay, [...(byDay.get(record.paliaDay) ?? []), record]);
+  }
+
+  return Array.from(byDay.entries())
+    .sort(([a], [b]) => b - a)
+    .map(([paliaDay, records]) => ({
+      paliaDay,
+      records: [...records].sort((a, b) => a.cropType.localeCompare(b.cropType)),
+      wateredCount: records.filter(record => record.watered).length,
+      missedCount: records.filter(record => !record.watered).length
+    }));
+}
+
+/**
+ * Share of records that were watered, as a whole percentage (0 when nothing was recorded)
+ */
+export function getCompletionPercent(completion: WateringCompletion): number {
+  return completion.totalCount > 0 ? Math.round((completion.wateredCount / completion.totalCount) * 100) : 0;
+}
+
+/**
+ * Add a record to a completion count, starting a new count if needed
+ */
+function countRecord(completion: WateringCompletion | null | undefined, record: WateringRecord): WateringCompletion {
+  return {
+    wateredCount: (completion?.wateredCount ?? 0) + (record.watered ? 1 : 0),
+    totalCount: (completion?.totalCount ?? 0) + 1
+  };
+}
+
+/**
+ * Completion of a garden per Palia week
+ * @param resetHour - Palia hour of the daily reset
+ * @returns One entry per week with records, most recent first
+ */
+export function getWeeklyCompletion(log: WateringRecord[], gardenId: string, resetHour: number): WeeklyCompletion[] {
+  const byWeek = new Map<string, { completion: WateringCompletion; lastDay: number }>();
+
+  for (const record of log) {
+    if (record.gardenId !== gardenId) continue;
+    const week = getWeekOfWateringDay(record.paliaDay, resetHour);
+    const entry = byWeek.get(week);
+    byWeek.set(week, {
+      completion: countRecord(entry?.completion, record),
+      lastDay: Math.max(entry?.lastDay ?? record.paliaDay, record.paliaDay)
+    });
+  }
+
+  return Array.from(byWeek.entries())
+    .sort(([, a], [, b]) => b.lastDay - a.lastDay)
+    .map(([weekIdentifier, { completion }]) => ({ weekIdentifier, ...completion }));
+}
+
+/**
+ * Completion of a garden per day of each Palia week, for a calendar heatmap
+ * Each Palia week is seven real days, each holding 24 Palia days.
+ * @param resetHour - Palia hour of the daily reset
+ * @returns One row per week with records, most recent first
+ */
+export function getCompletionHeatmap(log: WateringRecord[], gardenId: string, resetHour: number): HeatmapWeek[] {
+  const byWeek = new Map<string, { days: Array<WateringCompletion | null>; lastDay: number }>();
+
+  for (const record of log) {
+    if (record.gardenId !== gardenId) continue;
+    const { weekIdentifier, dayOfWeek } = getPaliaTime(getRealTimeOfPaliaDay(record.paliaDay, resetHour));
+    const entry = byWeek.get(weekIdentifier) ?? { days: Array<WateringCompletion | null>(7).fill(null), lastDay: record.paliaDay };
+    entry.days[dayOfWeek] = countRecord(entry.days[dayOfWeek], record);
+    entry.lastDay = Math.max(entry.lastDay, record.paliaDay);
+    byWeek.set(weekIdentifier, entry);
+  }
+
+  return Array.from(byWeek.entries())
+    .sort(([, a], [, b]) => b.lastDay - a.lastDay)
+    .map(([weekIdentifier, { days }]) => ({ weekIdentifier, days }));
+}
@@ -0,0 +1,103 @@
+import { CropEconomics } from '../types/crop';
+import { parseHarvestTime } from './growthService';
+import { parseGridData } from './plannerService';
+import { calculateLayoutYield, getHarvestsPerDay } from './yieldService';
+
+const economics = (harvestTime: string, baseValue: number, starValue: number): CropEconomics => ({
+  group: 'Vegetables',
+  description: '',
+  rarity: 'Common',
+  gardenBuff: 'None',
+  harvestTime,
+  growth: parseHarvestTime(harvestTime) ?? undefined,
+  baseValue,
+  starValue
+});
+
+/** Market data for the tests: Tomato is harvested every 4 days, Blueberry regrows */
+const ECONOMICS: { [cropType: string]: CropEconomics } = {
+  Tomato: economics('4 Days', 10, 15),
+  Blueberry: economics('6+2+2+2 Days', 20, 30)
+};
+
+const getEconomics = (cropType: string) => ECONOMICS[cropType];
+
+const yieldOf = async (saveCode: string, qualityUpStarChance?: number) =>
+  calculateLayoutYield(await parseGridData(saveCode), getEconomics, qualityUpStarChance === undefined ? {} : { qualityUpStarChance });
+
+describe('getHarvestsPerDay', () => {
+  it('averages harvests over a cycle including regrowth', () => {
+    expect(getHarvestsPerDay(ECONOMICS.Tomato)).toBe(1 / 4);
+    expect(getHarvestsPerDay(ECONOMICS.Blueberry)).toBe(4 / 12);
+  });
+
+  it('returns null for a crop without a growth schedule', () => {
+    expect(getHarvestsPerDay(economics('soon', 1, 1))).toBeNull();
+  });
+});
+
+describe('calculateLayoutYield', () => {
+  it('sells unfertilised plants at base quality', async () => {
+    const result = await yieldOf('v0.4_D-1_CR-TTTTTTTTT');
+
+    expect(result.crops).toEqual([{
+      cropType: 'Tomato',
+      plants: 9,
+      harvestBoostPlants: 0,
+      qualityUpPlants: 0,
+      harvestsPerDay: 0.25,
+      producePerDay: 2.25,
+      starShare: 0,
+      goldPerDay: 22.5
+    }]);
+    expect(result.producePerWeek).toBeCloseTo(2.25 * 168);
+    expect(result.goldPerWeek).toBeCloseTo(22.5 * 168);
+  });
+
+  it('adds one produce per harvest with Harvest Boost', async () => {
+    const [tomato] = (await yieldOf('v0.4_D-1_CR-T.HT.HT.HT.HT.HT.HT.HT.HT.H')).crops;
+
+    expect(tomato.harvestBoostPlants).toBe(9);
+    expect(tomato.producePerDay).toBeCloseTo(4.5);
+    expect(tomato.goldPerDay).toBeCloseTo(45);
+  });
+
+  it('sells part of the produce at star quality with Quality Up', async () => {
+    const [tomato] = (await yieldOf('v0.4_D-1_CR-T.QT.QT.QT.QT.QT.QT.QT.QT.Q')).crops;
+
+    expect(tomato.qualityUpPlants).toBe(9);
+    expect(tomato.starShare).toBeCloseTo(0.5);
+    expect(tomato.goldPerDay).toBeCloseTo(2.25 * (0.5 * 15 + 0.5 * 10));
+  });
+
+  it('uses the given Quality Up star chance', async () => {
+    const [tomato] = (await yieldOf('v0.4_D-1_CR-T.QT.QT.QT.QT.QT.QT.QT.QT.Q', 0.25)).crops;
+
+    expect(tomato.starShare).toBeCloseTo(0.25);
+    expect(tomato.goldPerDay).toBeCloseTo(2.25 * (0.25 * 15 + 0.75 * 10));
+  });
+
+  it('weights the star share by produce across plants', async () => {
+    const [tomato] = (await yieldOf('v0.4_D-1_CR-T.QT.QT.QTTTTTT')).crops;
+
+    expect(tomato.qualityUpPlants).toBe(3);
+    expect(tomato.starShare).toBeCloseTo((3 * 0.5) / 9);
+  });
+
+  it('only counts a fertilizer that covers every tile of a bush', async () => {
+    const result = await yieldOf('v0.4_D-11_CR-B.QB.QNB.QBNNNN-B.QB.QNB.QB.QNNNN');
+    const blueberry = result.crops[0];
+
+    expect(blueberry.plants).toBe(2);
+    expect(blueberry.qualityUpPlants).toBe(1);
+    expect(blueberry.producePerDay).toBeCloseTo(2 / 3);
+    expect(blueberry.starShare).toBeCloseTo(0.25);
+  });
+
+  it('lists crops without market data as unknown', async () => {
+    const result = await yieldOf('v0.4_D-1_CR-TTTPPPNNN');
+
+    expect(result.crops.map(crop => crop.cropType)).toEqual(['Tomato']);
+    expect(result.unknownCrops).toEqual(['Potato']);
+  });
+});
@@ -0,0 +1,130 @@
+import { CropEconomics, CropYield, LayoutYield } from '../types/crop';
+import { GridTile, ParsedGardenData } from '../types/layout';
+import { CropCatalog } from './cropCatalog';
+
+/** One Palia day lasts one real-world hour */
+const PALIA_DAYS_PER_REAL_WEEK = 7 * 24;
+
+/** Produce from one harvest of one plant */
+const PRODUCE_PER_HARVEST = 1;
+
+/** Extra produce per harvest from Harvest Boost */
+const HARVEST_BOOST_BONUS = 1;
+
+/**
+ * Assumptions a yield estimate depends on that crops.json does not provide
+ */
+export interface YieldAssumptions {
+  /** Chance (0-1) that a harvest of a plant with Quality Up is star quality */
+  qualityUpStarChance: number;
+}
+
+/**
+ * The game does not publish the Quality Up star chance; 0.5 is an estimate
+ */
+export const DEFAULT_YIELD_ASSUMPTIONS: YieldAssumptions = {
+  qualityUpStarChance: 0.5
+};
+
+/**
+ * Average harvests per Palia day of one plant watered every day
+ * A plant is replanted after its last regrowth, so one cycle yields the first harvest plus every
+ * regrowth over the first harvest time plus all regrowth times.
+ * @param economics - Market data of the crop
+ * @returns Harvests per day, or null if the crop has no growth schedule
+ */
+export function getHarvestsPerDay(economics: CropEconomics): number | null {
+  const { growth } = economics;
+  if (!growth) {
+    return null;
+  }
+
+  const cycleDays = growth.firstHarvestDays + growth.regrowCycles * growth.regrowDays;
+  return (1 + growth.regrowCycles) / cycleDays;
+}
+
+/**
+ * Group planted tiles by plant; tiles of incomplete footprints have no cropId and are left out
+ */
+function groupPlantTiles(tiles: GridTile[][]): GridTile[][] {
+  const plants = new Map<string, GridTile[]>();
+  for (const row of tiles) {
+    for (const tile of row) {
+      if (!tile.cropId || !tile.cropType || !tile.isActive) continue;
+      plants.set(tile.cropId, [...(plants.get(tile.cropId) ?? []), tile]);
+    }
+  }
+  return Array.from(plants.values());
+}
+
+/**
+ * Expected long-run produce and gold of a parsed layout
+ * Assumes every plant is grown from base seeds, watered daily, harvested as soon as it is ready
+ * and sold unprocessed. A fertilizer only counts for a bush or tree when it covers every tile of
+ * the plant.
+ * @param gardenData - Parsed layout
+ * @param getEconomics - Market data lookup, the crop catalog by default (crops.json must be loaded)
+ * @param assumptions - Overrides of DEFAULT_YIELD_ASSUMPTIONS
+ * @returns Per-crop and total output per Palia day and per real-world week
+ */
+export function calculateLayoutYield(
+  gardenData: ParsedGardenData,
+  getEconomics: (cropType: string) => CropEconomics | undefined = cropType => CropCatalog.get(cropType)?.economics,
+  assumptions: Partial<YieldAssumptions> = {}
+): LayoutYield {
+  const { qualityUpStarChance } = { ...DEFAULT_YIELD_ASSUMPTIONS, ...assumptions };
+  const byCrop = new Map<string, CropYield>();
+  const unknownCrops = new Set<string>();
+
+  for (const plantTiles of groupPlantTiles(gardenData.tiles)) {
+    const cropType = CropCatalog.getCanonicalName(plantTiles[0].cropType as string);
+    const economics = getEconomics(cropType);
+    const harvestsPerDay = economics ? getHarvestsPerDay(economics) : null;
+    if (!economics || harvestsPerDay === null) {
+      unknownCrops.add(cropType);
+      continue;
+    }
+
+    const harvestBoost = plantTiles.every(tile => tile.fertilizerType === 'Harvest Boost');
+    const qualityUp = plantTiles.every(tile => tile.fertilizerType === 'Quality Up');
+    const starChance = qualityUp ? qualityUpStarChance : 0;
+
+    const produce = harvestsPerDay * (PRODUCE_PER_HARVEST + (harvestBoost ? HARVEST_BOOST_BONUS : 0));
+    const gold = produce * (starChance * economics.starValue + (1 - starChance) * economics.baseValue);
+
+    const current = byCrop.get(cropType) ?? {
+      cropType,
+      plants: 0,
+      harvestBoostPlants: 0,
+      qualityUpPlants: 0,
+      harvestsPerDay,
+      producePerDay: 0,
+      starShare: 0,
+      goldPerDay: 0
+    };
+    const starProduce = current.starShare * current.producePerDay + starChance * produce;
+
+    byCrop.set(cropType, {
+      ...current,
+      plants: current.plants + 1,
+      harvestBoostPlants: current.harvestBoostPlants + (harvestBoost ? 1 : 0),
+      qualityUpPlants: current.qualityUpPlants + (qualityUp ? 1 : 0),
+      producePerDay: current.producePerDay + produce,
+      starShare: starProduce / (current.producePerDay + produce),
+      goldPerDay: current.goldPerDay + gold
+    });
+  }
+
+  const crops = Array.from(byCrop.values()).sort((a, b) => b.goldPerDay - a.goldPerDay);
+  const producePerDay = crops.reduce((sum, crop) => sum + crop.producePerDay, 0);
+  const goldPerDay = crops.reduce((sum, crop) => sum + crop.goldPerDay, 0);
+
+  return {
+    crops,
+    producePerDay,
+    goldPerDay,
+    producePerWeek: producePerDay * PALIA_DAYS_PER_REAL_WEEK,
+    goldPerWeek: goldPerDay * PALIA_DAYS_PER_REAL_WEEK,
+    unknownCrops: Array.from(unknownCrops).sort((a, b) => a.localeCompare(b))
+  };
+}
@@ -0,0 +1,145 @@
+/**
+ * Footprint class of a crop: 1x1, 2x2 or 3x3 tiles
+ */
+export type CropSize = 'single' | 'bush' | 'tree';
+
+/**
+ * How a crop grows, parsed from its crops.json harvest time
+ * "6+2+2+2 Days" is a first harvest after 6 watered days, then 3 regrowth cycles of 2 days
+ */
+export interface GrowthSchedule {
+  /** Watered days until the first harvest */
+  firstHarvestDays: number;
+  /** Watered days between later harvests (0 if the crop does not regrow) */
+  regrowDays: number;
+  /** Number of harvests after the first */
+  regrowCycles: number;
+}
+
+/**
+ * Where a planted crop stands in its growth schedule
+ */
+export interface GrowthProgress {
+  /** Palia day the crop was planted */
+  plantedOnDay: number;
+  /** Number of days the crop has been watered, including today */
+  daysWatered: number;
+  /** Whether the crop has been watered today */
+  wateredToday: boolean;
+}
+
+/**
+ * Next harvest of a planted crop, assuming it is watered every day from now on
+ */
+export interface HarvestForecast {
+  /** Which harvest this is (1 for the first harvest) */
+  harvestNumber: number;
+  /** Palia day the harvest is ready */
+  readyDay: number;
+  /** Watered days still needed, counting today */
+  daysRemaining: number;
+}
+
+/**
+ * Expected long-run output of every plant of one crop in a layout
+ */
+export interface CropYield {
+  cropType: string;
+  /** Number of plants */
+  plants: number;
+  /** Plants fully covered by Harvest Boost */
+  harvestBoostPlants: number;
+  /** Plants fully covered by Quality Up */
+  qualityUpPlants: number;
+  /** Average harvests per plant per Palia day, including regrowth */
+  harvestsPerDay: number;
+  /** Produce of all plants per Palia day */
+  producePerDay: number;
+  /** Share of the produce expected at star quality (0-1) */
+  starShare: number;
+  /** Sell value of the produce per Palia day */
+  goldPerDay: number;
+}
+
+/**
+ * Expected long-run output of a layout
+ */
+export interface LayoutYield {
+  /** One entry per crop with known market data, by descending gold per day */
+  crops: CropYield[];
+  producePerDay: number;
+  goldPerDay: number;
+  /** Output over one real-world week (168 Palia days) */
+  producePerWeek: number;
+  goldPerWeek: number;
+  /** Crops left out because crops.json has no growth schedule or values for them */
+  unknownCrops: string[];
+}
+
+/**
+ * Game and market data for a crop, as published in crops.json
+ */
+export interface CropEconomics {
+  /** Crop group (e.g., "Vegetables", "Fruit") */
+  group: string;
+  /** In-game description */
+  description: string;
+  /** Rarity (e.g., "Common", "Uncommon") */
+  rarity: string;
+  /** Buff the crop gives its neighbours */
+  gardenBuff: string;
+  /** Growth time, with regrowth cycles (e.g., "6+2+2+2 Days") */
+  harvestTime: string;
+  /** Parsed harvest time (absent if it could not be parsed) */
+  growth?: GrowthSchedule;
+  /** Sell value at base quality */
+  baseValue: number;
+  /** Sell value at star quality */
+  starValue: number;
+}
+
+/**
+ * Everything the app knows about one crop
+ */
+export interface CatalogCrop {
+  /** Canonical name, matching crops.json */
+  name: string;
+  /** Code used in Palia Garden Planner save codes (absent if the planner has no such crop) */
+  plannerCode?: string;
+  /** Other spellings found in save codes, image files and older saved data */
+  aliases: string[];
+  /** Footprint class */
+  size: CropSize;
+  /** Number of tiles one plant covers */
+  tiles: number;
+  /** Image path served from public/ */
+  image: string;
+  /** Emoji used where images are too small */
+  emoji: string;
+  /** Game and market data, available once crops.json has been loaded */
+  economics?: CropEconomics;
+}
+
+/**
+ * One entry of public/crops.json
+ */
+export interface CropDefinition {
+  /** Canonical crop name */
+  name: string;
+  /** Crop group (e.g., "Vegetables", "Fruit") */
+  group: string;
+  /** In-game description */
+  description: string;
+  /** Rarity (e.g., "Common", "Uncommon") */
+  rarity: string;
+  /** Buff the crop gives its neighbours ("None" if it gives none) */
+  garden_buff: string;
+  /** Growth time, with regrowth cycles (e.g., "6+2+2+2 Days") */
+  harvest_time: string;
+  /** Sell value at base quality */
+  base_value: number;
+  /** Sell value at star quality */
+  star_value: number;
+  /** Image path relative to public/ */
+  picture_url: string;
+}
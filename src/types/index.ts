@@ -4,6 +4,9 @@ export interface Plant {
   needsWater: boolean;
 }
 
+// Re-export crop catalog types for convenience
+export * from './crop';
+
 // Re-export layout types for convenience
 export * from './layout';
 
@@ -3,6 +3,8 @@
  * Based on palia-tools garden planner data structures
  */
 
+import { CropSize } from './crop';
+
 /**
  * Represents a single tile in the garden grid
  */
@@ -16,8 +18,10 @@ export interface GridTile {
   fertilizerType: string | null;
   /** Whether this tile needs watering */
   needsWater: boolean;
-  /** Unique identifier for multi-tile crops (bushes/trees) */
+  /** Identifier shared by every tile of the same plant (bushes/trees span several tiles) */
   cropId?: string;
+  /** Tile code read from the save code, re-encoded as-is while the crop and fertilizer are unchanged */
+  tileCode?: string;
   /** Whether this tile is part of an active plot */
   isActive: boolean;
 }
@@ -38,7 +42,7 @@ export interface CropSummary {
       /** Count needing water */
       needingWater: number;
       /** Crop size (single, bush, tree) */
-      size: 'single' | 'bush' | 'tree';
+      size: CropSize;
       /** Number of tiles per plant */
       tilesPerPlant: number;
     };
@@ -47,6 +51,49 @@ export interface CropSummary {
   wateringPercentage: number;
 }
 
+/**
+ * Decoded settings section of a save code
+ */
+export interface PlannerSettings {
+  /** Original settings section, kept for re-encoding */
+  raw: string;
+  /** Number of days the harvest calculator simulates */
+  harvestDays?: number;
+  /** Gardening skill level */
+  gardeningLevel?: number;
+  /** Tokens the decoder did not recognise */
+  unknownTokens: string[];
+}
+
+/**
+ * Save code section a parse diagnostic refers to
+ */
+export type ParseSection = 'dimensions' | 'crops' | 'settings';
+
+/**
+ * A single problem found while parsing a save code
+ */
+export interface ParseDiagnostic {
+  /** Errors are invalid codes whose data was dropped; warnings are valid codes that may not load as intended */
+  severity: 'error' | 'warning';
+  /** Section of the save code the problem is in */
+  section: ParseSection;
+  /** Zero-based index of the plot string in the crops section */
+  plotIndex?: number;
+  /** Zero-based index of the tile within its plot */
+  tileIndex?: number;
+  /** Human-readable description (plot and tile numbers are one-based) */
+  message: string;
+}
+
+/**
+ * Problems found while parsing a save code, split by severity
+ */
+export interface ParseDiagnostics {
+  errors: ParseDiagnostic[];
+  warnings: ParseDiagnostic[];
+}
+
 /**
  * Complete parsed garden data from save code
  */
@@ -68,6 +115,31 @@ export interface ParsedGardenData {
   version: string;
   /** Settings information if available */
   settings?: string;
+  /** Decoded settings, when the save code has a settings section */
+  plannerSettings?: PlannerSettings;
+  /** Problems found while parsing that did not stop the code from loading */
+  diagnostics?: ParseDiagnostics;
+}
+
+/**
+ * Buff a crop gives to neighbouring plants of other crops (crops.json `garden_buff`)
+ */
+export type GardenBuff = 'Harvest Boost' | 'Water Retain' | 'Weed Block' | 'Quality Boost' | 'Speed Boost';
+
+/**
+ * Garden buffs received across a layout
+ */
+export interface BuffCoverage {
+  /** Buffs received by each tile, indexed like ParsedGardenData.tiles (empty for unplanted tiles) */
+  tileBuffs: GardenBuff[][][];
+  /** Tiles covered by a plant */
+  plantedTiles: number;
+  /** Planted tiles receiving at least one buff */
+  buffedTiles: number;
+  /** Share of planted tiles receiving at least one buff, as a whole percentage */
+  score: number;
+  /** Planted tiles receiving each buff */
+  tilesByBuff: { [buff in GardenBuff]: number };
 }
 
 /**
@@ -115,6 +187,15 @@ export interface SavedLayout {
   isFavorite: boolean;
 }
 
+/**
+ * Saved layout as written to storage
+ * Compressed layouts leave out the garden data, which is re-derived from the save code when read.
+ */
+export interface StoredLayout extends Omit<SavedLayout, 'gardenData'> {
+  /** Parsed garden data, absent in compressed layouts */
+  gardenData?: ParsedGardenData;
+}
+
 /**
  * Storage quota and management info
  */
@@ -125,7 +206,7 @@ export interface StorageInfo {
   maxCount: number;
   /** Available slots */
   availableSlots: number;
-  /** Total storage used (in bytes) */
+  /** Size of the stored layout data (in bytes) */
   storageUsed: number;
   /** Estimated storage limit (in bytes) */
   storageLimit: number;
@@ -139,7 +220,7 @@ export interface LayoutServiceConfig {
   maxLayouts: number;
   /** Storage key prefix */
   storagePrefix: string;
-  /** Whether to enable compression */
+  /** Whether to store layouts without their garden data, re-deriving it from the save code */
   enableCompression: boolean;
 }
 
@@ -1,3 +1,4 @@
+import { v4 as uuidv4 } from 'uuid';
 import { Plant } from './index';
 
 /**
@@ -9,16 +10,20 @@ export interface TrackedCrop {
   cropType: string;
   /** Source of this crop entry */
   source: 'manual' | 'import';
-  /** Individual plant instances (for imported crops) */
+  /** Individual plant instances (for imported crops); IDs are the active layout's cropIds */
   plantInstances: Plant[];
   /** Total count of this crop type */
   totalCount: number;
-  /** Daily watering state */
+  /** Daily watering state (derived from plantInstances when the crop has any) */
   isWatered: boolean;
   /** When this crop was added to tracking */
   addedAt: Date;
   /** Last time this crop was watered */
   lastWateredAt?: Date;
+  /** Palia day the crop was planted (defaults to the Palia day of addedAt) */
+  plantedOnDay?: number;
+  /** Number of Palia days the crop has been watered, including today */
+  daysWatered: number;
 }
 
 /**
@@ -27,22 +32,69 @@ export interface TrackedCrop {
 export interface DailyWateringState {
   /** Last day when watering was reset (format: "Day X Cycle XX") */
   lastResetDay: string;
-  /** Reset time in hours (6 for 6 AM) */
+  /** Palia hour (0-23) at which daily watering resets (6 for 6 AM) */
   resetTime: number;
+  /** Absolute Palia day of the last reset (absent in data saved before it was tracked) */
+  lastResetPaliaDay?: number;
+  /** Palia days whose reset passed while the app was closed, most recent last */
+  missedResetDays?: number[];
+}
+
+/**
+ * A named garden with its own tracked crops, e.g. your own plot or a friend's
+ */
+export interface GardenProfile {
+  /** Unique garden identifier */
+  id: string;
+  /** Display name (e.g., "My Garden", "Hodari's Plot") */
+  name: string;
+  /** Tracked crops of this garden */
+  trackedCrops: TrackedCrop[];
+  /** Daily watering state of this garden */
+  dailyWateringState: DailyWateringState;
+  /** Saved layout whose plants are tracked in this garden */
+  activeLayoutId: string | null;
+  /** When the garden was created (ms since epoch) */
+  createdAt: number;
+}
+
+/**
+ * Watering status of one garden for the current Palia day
+ */
+export interface GardenOverview {
+  /** Garden identifier */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Whether this is the garden shown in the tracker */
+  isActive: boolean;
+  /** Number of tracked crop types */
+  trackedCropCount: number;
+  /** Number of tracked crop types watered this Palia day */
+  wateredCropCount: number;
+  /** Whether any tracked crop still needs water this Palia day */
+  needsWater: boolean;
 }
 
 /**
  * Persisted data structure for localStorage
+ * The top-level crops, watering state and layout belong to the active garden.
  */
 export interface PersistedGardenData {
-  /** Version for migration compatibility */
-  version: '2.0';
+  /** Schema version; older versions are upgraded by SchemaMigrationService on load */
+  version: typeof CURRENT_VERSION;
   /** All tracked crops */
   trackedCrops: TrackedCrop[];
   /** Daily watering state */
   dailyWateringState: DailyWateringState;
   /** Whether data was migrated from legacy system */
   migratedFromLegacy: boolean;
+  /** Saved layout whose plants are being tracked */
+  activeLayoutId: string | null;
+  /** Every garden profile */
+  gardens: GardenProfile[];
+  /** Garden whose data is stored in the top-level fields */
+  activeGardenId: string;
   /** Timestamp of last save */
   lastSaved: number;
 }
@@ -74,6 +126,63 @@ export interface MigrationResult {
   wateringStatePreserved: boolean;
 }
 
+/**
+ * Outcome of upgrading persisted data to the current schema version
+ */
+export interface SchemaMigrationResult {
+  /** Whether the data now matches the current schema */
+  success: boolean;
+  /** Version the data was stored with (null if it had none) */
+  fromVersion: string | null;
+  /** Version the data was upgraded to */
+  toVersion: string;
+  /** Migrations applied, in order (e.g., "2.0 → 2.1") */
+  appliedMigrations: string[];
+  /** Why the upgrade failed */
+  errors: string[];
+  /** localStorage key holding the data as it was before the upgrade */
+  backupKey?: string;
+  /** The data was saved by a newer version of the app; it was left untouched and nothing is saved over it */
+  newerVersion?: boolean;
+}
+
+/**
+ * Watering outcome of one crop on one day
+ */
+export interface WateringRecord {
+  /** Garden the crop is tracked in */
+  gardenId: string;
+  cropType: string;
+  /** Palia day, counted from the daily reset, the record is for */
+  paliaDay: number;
+  /** Whether the crop was watered that day; false means the day was missed */
+  watered: boolean;
+  /** When the crop was watered, or for a missed day when the miss was recorded (milliseconds since the Unix epoch) */
+  recordedAt: number;
+}
+
+/**
+ * One change in the undo/redo history
+ */
+export interface HistoryEntry {
+  /** Store action that made the change */
+  action: keyof UnifiedGardenStoreActions;
+  /** Tracker data to restore: before the change for undo entries, before the undo for redo entries */
+  snapshot: Omit<PersistedGardenData, 'lastSaved'>;
+  /** When the change was made (milliseconds since the Unix epoch) */
+  at: number;
+}
+
+/**
+ * Undo/redo history as stored between page loads
+ */
+export interface PersistedHistory {
+  /** Palia day, counted from the daily reset, that the history belongs to */
+  wateringDay: number;
+  undoStack: HistoryEntry[];
+  redoStack: HistoryEntry[];
+}
+
 /**
  * Store actions interface
  */
@@ -84,14 +193,22 @@ export interface UnifiedGardenStoreActions {
   removeCrop: (cropType: string) => void;
   /** Import plants from garden planner (groups by crop type) */
   importPlantsFromGarden: (plants: Plant[]) => void;
-  /** Toggle watering state for a specific crop type */
+  /** Toggle watering state for a specific crop type (and all of its plants) */
   toggleCropWatered: (cropType: string) => void;
+  /** Toggle watering state for a single plant of the active layout */
+  togglePlantWatered: (plantId: string) => void;
+  /** Set the Palia day a crop was planted and restart its growth count */
+  setCropPlantedDay: (cropType: string, paliaDay: number) => void;
   /** Mark all crops as watered */
   waterAllCrops: () => void;
   /** Mark all crops as not watered */
   waterNoneCrops: () => void;
-  /** Reset daily watering (called at 6 AM) */
-  resetDailyWatering: (currentDay: string) => void;
+  /** Reset daily watering (called when the reset hour passes) */
+  resetDailyWatering: (currentDay: string, paliaDay?: number) => void;
+  /** Apply the daily reset, and any resets missed since the last one, if due at the given time */
+  syncDailyReset: (timestamp: number) => void;
+  /** Change the Palia hour (0-23) at which daily watering resets, in every garden */
+  setResetHour: (hour: number) => void;
   /** Import data from legacy localStorage */
   importFromLegacyData: (legacyData: LegacyData) => MigrationResult;
   /** Clear all tracked crops */
@@ -102,12 +219,35 @@ export interface UnifiedGardenStoreActions {
   getCropsBySource: (source: 'manual' | 'import') => TrackedCrop[];
   /** Update plant instances for an imported crop */
   updatePlantInstances: (cropType: string, plants: Plant[]) => void;
-  /** Save and load a layout with the current tracked crops */
-  saveAndLoadLayout: (saveCode: string, name: string, options?: { notes?: string; tags?: string[] }) => Promise<{ success: boolean; error?: string }>;
-  /** Load a layout by ID and update tracked crops */
-  loadLayoutById: (layoutId: string) => Promise<{ success: boolean; error?: string }>;
+  /** Save a layout, make it the active layout and track its plants */
+  saveAndLoadLayout: (saveCode: string, name: string, options?: { notes?: string; tags?: string[]; mode?: LayoutSwitchMode }) => Promise<{ success: boolean; error?: string }>;
+  /** Make a saved layout the active layout and track its plants */
+  loadLayoutById: (layoutId: string, mode?: LayoutSwitchMode) => Promise<{ success: boolean; error?: string }>;
+  /** Stop tracking the active layout, keeping tracked crops without its plants */
+  detachLayout: () => void;
+  /** Add an empty garden profile */
+  createGarden: (name: string) => void;
+  /** Rename a garden profile */
+  renameGarden: (gardenId: string, name: string) => void;
+  /** Delete a garden profile other than the active one */
+  deleteGarden: (gardenId: string) => void;
+  /** Store the active garden and show another one in the tracker */
+  switchGarden: (gardenId: string) => void;
+  /** Watering status of every garden at a real-world time */
+  getGardenOverview: (timestamp: number) => GardenOverview[];
+  /** Revert the most recent change; returns the undone entry, or null if there is nothing to undo */
+  undo: () => HistoryEntry | null;
+  /** Re-apply the most recently undone change; returns it, or null if there is nothing to redo */
+  redo: () => HistoryEntry | null;
 }
 
+/**
+ * What happens to tracked crops that are not in a newly loaded layout
+ * - replace: stop tracking them
+ * - merge: keep tracking them alongside the layout's crops
+ */
+export type LayoutSwitchMode = 'replace' | 'merge';
+
 /**
  * Complete unified garden store interface
  */
@@ -116,6 +256,22 @@ export interface UnifiedGardenStore extends UnifiedGardenStoreActions {
   trackedCrops: TrackedCrop[];
   /** Daily watering state management */
   dailyWateringState: DailyWateringState;
+  /** Saved layout whose plants are being tracked */
+  activeLayoutId: string | null;
+  /** Every garden profile; the active garden's crops, watering state and layout are the fields above */
+  gardens: GardenProfile[];
+  /** Garden shown in the tracker */
+  activeGardenId: string | null;
+  /** Whether the data was migrated from the legacy system */
+  migratedFromLegacy: boolean;
+  /** Outcome of upgrading older persisted data on the last load (null if none was needed) */
+  schemaMigration: SchemaMigrationResult | null;
+  /** Changes that can be undone, oldest first */
+  undoStack: HistoryEntry[];
+  /** Undone changes that can be redone, oldest first */
+  redoStack: HistoryEntry[];
+  /** Watering outcome of every tracked crop for each finished day, oldest first */
+  wateringLog: WateringRecord[];
   /** Whether the store has been initialized */
   isInitialized: boolean;
   /** Loading state for async operations */
@@ -136,7 +292,46 @@ export const validateTrackedCrop = (crop: any): crop is TrackedCrop => {
     Array.isArray(crop.plantInstances) &&
     typeof crop.totalCount === 'number' &&
     typeof crop.isWatered === 'boolean' &&
-    crop.addedAt instanceof Date
+    crop.addedAt instanceof Date &&
+    (crop.plantedOnDay === undefined || typeof crop.plantedOnDay === 'number') &&
+    typeof crop.daysWatered === 'number'
+  );
+};
+
+export const validateWateringRecord = (record: any): record is WateringRecord => {
+  return (
+    typeof record === 'object' &&
+    record !== null &&
+    typeof record.gardenId === 'string' &&
+    typeof record.cropType === 'string' &&
+    typeof record.paliaDay === 'number' &&
+    typeof record.watered === 'boolean' &&
+    typeof record.recordedAt === 'number'
+  );
+};
+
+export const validateDailyWateringState = (state: any): state is DailyWateringState => {
+  return (
+    typeof state === 'object' &&
+    state !== null &&
+    typeof state.lastResetDay === 'string' &&
+    typeof state.resetTime === 'number' &&
+    (state.lastResetPaliaDay === undefined || typeof state.lastResetPaliaDay === 'number') &&
+    (state.missedResetDays === undefined || Array.isArray(state.missedResetDays))
+  );
+};
+
+export const validateGardenProfile = (garden: any): garden is GardenProfile => {
+  return (
+    typeof garden === 'object' &&
+    garden !== null &&
+    typeof garden.id === 'string' &&
+    typeof garden.name === 'string' &&
+    Array.isArray(garden.trackedCrops) &&
+    garden.trackedCrops.every(validateTrackedCrop) &&
+    validateDailyWateringState(garden.dailyWateringState) &&
+    (garden.activeLayoutId === null || typeof garden.activeLayoutId === 'string') &&
+    typeof garden.createdAt === 'number'
   );
 };
 
@@ -144,13 +339,15 @@ export const validatePersistedData = (data: any): data is PersistedGardenData =>
   return (
     typeof data === 'object' &&
     data !== null &&
-    data.version === '2.0' &&
+    data.version === CURRENT_VERSION &&
     Array.isArray(data.trackedCrops) &&
     data.trackedCrops.every(validateTrackedCrop) &&
-    typeof data.dailyWateringState === 'object' &&
-    typeof data.dailyWateringState.lastResetDay === 'string' &&
-    typeof data.dailyWateringState.resetTime === 'number' &&
+    validateDailyWateringState(data.dailyWateringState) &&
     typeof data.migratedFromLegacy === 'boolean' &&
+    (data.activeLayoutId === null || typeof data.activeLayoutId === 'string') &&
+    Array.isArray(data.gardens) &&
+    data.gardens.every(validateGardenProfile) &&
+    data.gardens.some((garden: GardenProfile) => garden.id === data.activeGardenId) &&
     typeof data.lastSaved === 'number'
   );
 };
@@ -169,8 +366,52 @@ export const createTrackedCrop = (
   totalCount: source === 'manual' ? 1 : plantInstances.length,
   isWatered: false,
   addedAt: new Date(),
+  daysWatered: 0,
 });
 
+/**
+ * Create a garden profile
+ * @param name - Display name
+ * @param data - Crops, watering state and layout of the garden (defaults to an empty garden)
+ */
+export const createGardenProfile = (
+  name: string,
+  data: Partial<Pick<GardenProfile, 'trackedCrops' | 'dailyWateringState' | 'activeLayoutId'>> = {}
+): GardenProfile => ({
+  id: uuidv4(),
+  name,
+  trackedCrops: data.trackedCrops ?? [],
+  dailyWateringState: data.dailyWateringState ?? { ...DEFAULT_DAILY_WATERING_STATE },
+  activeLayoutId: data.activeLayoutId ?? null,
+  createdAt: Date.now()
+});
+
+/**
+ * Apply new plant instances to a crop, deriving its watering state from them
+ * A crop with plants counts as watered once every plant is watered; becoming (un)watered
+ * adjusts today's watered-day count just like toggling the crop directly.
+ */
+export const applyPlantWatering = (crop: TrackedCrop, plantInstances: Plant[]): TrackedCrop => {
+  const isWatered = plantInstances.length > 0 && plantInstances.every(plant => !plant.needsWater);
+  if (isWatered === crop.isWatered) {
+    return { ...crop, plantInstances };
+  }
+
+  return {
+    ...crop,
+    plantInstances,
+    isWatered,
+    lastWateredAt: isWatered ? new Date() : crop.lastWateredAt,
+    daysWatered: Math.max(0, crop.daysWatered + (isWatered ? 1 : -1))
+  };
+};
+
+/**
+ * Set every plant of a crop to the same watering state
+ */
+export const setAllPlantsWatered = (plants: Plant[], isWatered: boolean): Plant[] =>
+  plants.map(plant => ({ ...plant, needsWater: !isWatered }));
+
 export const groupPlantsByType = (plants: Plant[]): { [cropType: string]: Plant[] } => {
   return plants.reduce((groups, plant) => {
     if (!groups[plant.name]) {
@@ -186,14 +427,26 @@ export const groupPlantsByType = (plants: Plant[]): { [cropType: string]: Plant[
  */
 export const STORAGE_KEYS = {
   UNIFIED_GARDEN: 'paliaUnifiedGarden',
+  UNIFIED_GARDEN_BACKUP: 'paliaUnifiedGardenBackup',
+  UNIFIED_HISTORY: 'paliaUnifiedHistory',
+  WATERING_LOG: 'paliaWateringLog',
   LEGACY_TRACKED_CROPS: 'paliaTrackedCrops',
   LEGACY_WATERING_STATE: 'paliaWateringState',
   LEGACY_CYCLE_STATE: 'paliaCycleWateringState',
 } as const;
 
+/** Most changes kept in each of the undo and redo stacks */
+export const MAX_HISTORY_ENTRIES = 50;
+
 export const DEFAULT_DAILY_WATERING_STATE: DailyWateringState = {
   lastResetDay: '',
   resetTime: 6, // 6 AM
 };
 
-export const CURRENT_VERSION = '2.0' as const;
\ No newline at end of file
+export const CURRENT_VERSION = '2.1' as const;
+
+/** Name of the garden created for data saved before garden profiles existed */
+export const DEFAULT_GARDEN_NAME = 'My Garden';
+
+/** Maximum number of missed reset days kept in DailyWateringState (one real week of Palia days) */
+export const MAX_MISSED_RESET_DAYS = 7 * 24;
\ No newline at end of file